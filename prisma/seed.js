@@ -11,7 +11,7 @@ async function main() {
     // Create permissions
     console.log('Creating permissions...');
     const resources = ['user', 'role', 'permission', 'department', 'leave', 'payroll', 'job', 'candidate', 'application', 'notification', 'file', 'audit_log', 'setting'];
-    const actions = ['create', 'read', 'update', 'delete', 'approve', 'reject', 'manage'];
+    const actions = ['create', 'read', 'update', 'delete', 'approve', 'reject', 'manage', 'read_sensitive'];
     const permissions = [];
     for (const resource of resources) {
         for (const action of actions) {
@@ -19,6 +19,10 @@ async function main() {
             if ((action === 'approve' || action === 'reject') && !['leave', 'application'].includes(resource)) {
                 continue;
             }
+            // Only user records have sensitive fields (bank account, tax ID, ...)
+            if (action === 'read_sensitive' && resource !== 'user') {
+                continue;
+            }
             const permission = await prisma.permission.upsert({
                 where: { slug: `${resource}:${action}` },
                 update: {},
@@ -116,6 +120,8 @@ async function main() {
             create: {
                 roleId: managerRole.id,
                 permissionId: permission.id,
+                // Managers act on their department and its sub-departments
+                scope: 'DEPARTMENT_TREE',
             },
         });
     }
@@ -279,6 +285,51 @@ async function main() {
             isPublic: false,
         },
     });
+    await prisma.setting.upsert({
+        where: { key: 'email_verification_policy' },
+        update: {},
+        create: {
+            key: 'email_verification_policy',
+            value: 'restrict', // off | restrict | block_login
+            type: 'STRING',
+            category: 'auth',
+            isPublic: false,
+        },
+    });
+    // Open self-registration; set to false to onboard through invitations only
+    await prisma.setting.upsert({
+        where: { key: 'registration_enabled' },
+        update: {},
+        create: {
+            key: 'registration_enabled',
+            value: 'true',
+            type: 'BOOLEAN',
+            category: 'auth',
+            isPublic: true,
+        },
+    });
+    // Password policy (read by PasswordPolicyService)
+    const passwordPolicySettings = [
+        { key: 'password_min_length', value: '8', type: 'NUMBER' },
+        { key: 'password_require_uppercase', value: 'true', type: 'BOOLEAN' },
+        { key: 'password_require_lowercase', value: 'true', type: 'BOOLEAN' },
+        { key: 'password_require_number', value: 'true', type: 'BOOLEAN' },
+        { key: 'password_require_special', value: 'true', type: 'BOOLEAN' },
+        { key: 'password_history_count', value: '5', type: 'NUMBER' },
+        { key: 'password_max_age_days', value: '90', type: 'NUMBER' }, // 0 disables expiry
+        { key: 'password_check_breached', value: 'true', type: 'BOOLEAN' },
+    ];
+    for (const setting of passwordPolicySettings) {
+        await prisma.setting.upsert({
+            where: { key: setting.key },
+            update: {},
+            create: {
+                ...setting,
+                category: 'password_policy',
+                isPublic: false,
+            },
+        });
+    }
     console.log('✅ Created system settings');
     console.log('✨ Seeding completed successfully!');
 }
@@ -8,6 +8,7 @@ import { swaggerSpec } from './config/swagger';
 import { corsOptions, securityHeaders, rateLimiter, requestLogger } from './middlewares/security.middleware';
 import { errorHandler, notFoundHandler } from './middlewares/error.middleware';
 import routes from './routes';
+import wellKnownRoutes from './routes/well-known.routes';
 
 const app = express();
 
@@ -35,6 +36,9 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 // API routes
 app.use('/api', routes);
 
+// Discovery documents (JWKS)
+app.use('/.well-known', wellKnownRoutes);
+
 // Root endpoint
 app.get('/', (_req, res) => {
   res.json({
@@ -1,7 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import logger from './logger';
+import { piiEncryption } from './pii-encryption';
 
-const prisma = new PrismaClient({
+const baseClient = new PrismaClient({
   log: [
     { emit: 'event', level: 'query' },
     { emit: 'event', level: 'error' },
@@ -11,20 +12,23 @@ const prisma = new PrismaClient({
 
 // Log queries in development
 if (process.env.NODE_ENV === 'development') {
-  prisma.$on('query', (e: any) => {
+  baseClient.$on('query', (e: any) => {
     logger.debug('Query: ' + e.query);
     logger.debug('Duration: ' + e.duration + 'ms');
   });
 }
 
-prisma.$on('error', (e: any) => {
+baseClient.$on('error', (e: any) => {
   logger.error('Prisma error:', e);
 });
 
-prisma.$on('warn', (e: any) => {
+baseClient.$on('warn', (e: any) => {
   logger.warn('Prisma warning:', e);
 });
 
+// Sensitive user fields are encrypted and decrypted transparently
+const prisma = baseClient.$extends(piiEncryption);
+
 export default prisma;
 
 export const connectDatabase = async () => {
@@ -16,6 +16,114 @@ const envSchema = z.object({
   JWT_REFRESH_SECRET: z.string().min(32, 'JWT_REFRESH_SECRET must be at least 32 characters'),
   ACCESS_TOKEN_EXPIRES_IN: z.string().default('15m'),
   REFRESH_TOKEN_EXPIRES_IN: z.string().default('30d'),
+  // Lifetime of access tokens issued to a super admin impersonating a user
+  IMPERSONATION_TOKEN_EXPIRES_IN: z.string().default('10m'),
+
+  // Access token signing. HS256 uses JWT_ACCESS_SECRET. RS256 signs with the
+  // key JWT_ACCESS_KEY_ID from JWT_KEYS_DIR, which holds one <kid>.pem file per
+  // key (private, or public-only for retired keys); every key in the directory
+  // is published as JWKS and accepted for verification.
+  JWT_ACCESS_ALGORITHM: z.enum(['HS256', 'RS256']).default('HS256'),
+  JWT_KEYS_DIR: z.string().optional(),
+  JWT_ACCESS_KEY_ID: z.string().optional(),
+  // Keep accepting HS256 access tokens in RS256 mode (disable once they have expired)
+  JWT_ACCEPT_HS256: z
+    .string()
+    .default('true')
+    .transform((v) => v === 'true'),
+
+  // Multi-factor authentication
+  MFA_ISSUER: z.string().default('HR Management System'),
+  MFA_CHALLENGE_EXPIRES_IN: z.string().default('5m'),
+
+  // Optional newline-separated breached password list, checked in addition
+  // to the bundled list of common passwords
+  BREACHED_PASSWORDS_FILE: z.string().optional(),
+
+  // Permission catalogue reconciliation at startup: apply creates missing
+  // permissions and default role permissions, dry-run only logs the diff
+  PERMISSION_SYNC_ON_BOOT: z.enum(['apply', 'dry-run', 'off']).default('apply'),
+
+  // Application-level encryption of user PII columns (disabled unless
+  // PII_ENCRYPTION_KEYS is set). PII_ENCRYPTION_KEYS is a JSON object of key ID
+  // to base64 256-bit key, e.g. {"2024-01":"..."}; new values use the key
+  // PII_ENCRYPTION_KEY_ID. PII_BLIND_INDEX_KEY (base64, 256-bit) keys the
+  // exact-match index on taxId.
+  PII_ENCRYPTION_KEYS: z
+    .string()
+    .default('{}')
+    .transform((v, ctx) => {
+      try {
+        return JSON.parse(v) as Record<string, string>;
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'PII_ENCRYPTION_KEYS must be a JSON object',
+        });
+        return z.NEVER;
+      }
+    }),
+  PII_ENCRYPTION_KEY_ID: z.string().optional(),
+  PII_BLIND_INDEX_KEY: z.string().optional(),
+
+  // OpenID Connect single sign-on (disabled unless OIDC_ISSUER is set).
+  // OIDC_REDIRECT_URI is this API's /api/auth/oidc/callback URL.
+  OIDC_ISSUER: z.string().url().optional(),
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(),
+  OIDC_REDIRECT_URI: z.string().url().optional(),
+  OIDC_SCOPES: z.string().default('openid email profile'),
+  // Frontend page the browser returns to after SSO (with ?error= on failure)
+  OIDC_POST_LOGIN_REDIRECT: z.string().default('http://localhost:3000/auth/sso'),
+  // Link an unknown identity to the user with the same verified email
+  OIDC_LINK_BY_EMAIL: z
+    .string()
+    .default('true')
+    .transform((v) => v === 'true'),
+  // Create users on first SSO login (just-in-time provisioning)
+  OIDC_JIT_PROVISIONING: z
+    .string()
+    .default('false')
+    .transform((v) => v === 'true'),
+  OIDC_DEFAULT_ROLE: z.string().default('employee'),
+  // Comma-separated amr (e.g. mfa,otp) or acr values showing the provider
+  // verified a second factor. Such logins skip local MFA; by default every SSO
+  // login goes through it.
+  OIDC_MFA_AMR_VALUES: z
+    .string()
+    .default('')
+    .transform((v) =>
+      v
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean)
+    ),
+  OIDC_MFA_ACR_VALUES: z
+    .string()
+    .default('')
+    .transform((v) =>
+      v
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean)
+    ),
+  // Claim (e.g. groups) whose values map to role slugs via OIDC_ROLE_MAPPING,
+  // a JSON object such as {"hr-admins":"hr-manager"}
+  OIDC_ROLE_CLAIM: z.string().optional(),
+  OIDC_ROLE_MAPPING: z
+    .string()
+    .default('{}')
+    .transform((v, ctx) => {
+      try {
+        return JSON.parse(v) as Record<string, string>;
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'OIDC_ROLE_MAPPING must be a JSON object',
+        });
+        return z.NEVER;
+      }
+    }),
 
   // Cookies
   COOKIE_DOMAIN: z.string().optional(),
@@ -43,6 +151,14 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW_MS: z.string().default('900000').transform(Number),
   RATE_LIMIT_MAX_REQUESTS: z.string().default('100').transform(Number),
 
+  // Login lockout (failed attempts within the window lock the account or IP;
+  // repeated lockouts double the duration up to the maximum)
+  LOGIN_MAX_FAILED_ATTEMPTS_ACCOUNT: z.string().default('5').transform(Number),
+  LOGIN_MAX_FAILED_ATTEMPTS_IP: z.string().default('20').transform(Number),
+  LOGIN_FAILED_ATTEMPTS_WINDOW_MS: z.string().default('900000').transform(Number),
+  LOGIN_LOCKOUT_DURATION_MS: z.string().default('900000').transform(Number),
+  LOGIN_LOCKOUT_MAX_DURATION_MS: z.string().default('86400000').transform(Number),
+
   // CORS
   CORS_ORIGIN: z.string().default('http://localhost:3000'),
 
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import env from './env';
+import logger from './logger';
+
+interface JwtKey {
+  kid: string;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+// Load every <kid>.pem file from JWT_KEYS_DIR. Private keys can sign and verify;
+// public-only files keep retired keys verifiable until their tokens expire.
+const loadKeys = (): Map<string, JwtKey> => {
+  const keys = new Map<string, JwtKey>();
+
+  if (!env.JWT_KEYS_DIR) {
+    return keys;
+  }
+
+  for (const file of fs.readdirSync(env.JWT_KEYS_DIR)) {
+    if (path.extname(file) !== '.pem') {
+      continue;
+    }
+
+    const kid = path.basename(file, '.pem');
+    const pem = fs.readFileSync(path.join(env.JWT_KEYS_DIR, file), 'utf8');
+
+    let key: JwtKey;
+    if (pem.includes('PRIVATE KEY')) {
+      const privateKey = crypto.createPrivateKey(pem);
+      key = { kid, privateKey, publicKey: crypto.createPublicKey(privateKey) };
+    } else {
+      key = { kid, publicKey: crypto.createPublicKey(pem) };
+    }
+
+    if (key.publicKey.asymmetricKeyType !== 'rsa') {
+      throw new Error(`JWT key ${kid} must be an RSA key`);
+    }
+
+    keys.set(kid, key);
+  }
+
+  logger.info(`Loaded ${keys.size} JWT signing key(s)`);
+
+  return keys;
+};
+
+const keys = loadKeys();
+
+if (env.JWT_ACCESS_ALGORITHM === 'RS256') {
+  const activeKey = env.JWT_ACCESS_KEY_ID && keys.get(env.JWT_ACCESS_KEY_ID);
+  if (!activeKey || !activeKey.privateKey) {
+    throw new Error('JWT_ACCESS_KEY_ID must name a private key in JWT_KEYS_DIR for RS256');
+  }
+}
+
+// Key used to sign new access tokens (RS256 mode only)
+export const getSigningKey = (): { kid: string; privateKey: KeyObject } => {
+  const key = env.JWT_ACCESS_KEY_ID ? keys.get(env.JWT_ACCESS_KEY_ID) : undefined;
+  if (!key || !key.privateKey) {
+    throw new Error('No JWT signing key configured');
+  }
+  return { kid: key.kid, privateKey: key.privateKey };
+};
+
+// Public key for a token's kid, if known
+export const getVerificationKey = (kid?: string): KeyObject | undefined => {
+  return kid ? keys.get(kid)?.publicKey : undefined;
+};
+
+// Public keys in JSON Web Key Set format
+export const getJwks = (): { keys: JsonWebKey[] } => {
+  return {
+    keys: Array.from(keys.values()).map((key) => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      use: 'sig',
+      alg: 'RS256',
+    })),
+  };
+};
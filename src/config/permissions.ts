@@ -0,0 +1,76 @@
+import { PermissionScope } from '@prisma/client';
+import { Resource, Action } from '../types';
+
+// Actions that apply only to some resources; other actions apply to every resource
+const ACTION_RESOURCES: Partial<Record<Action, Resource[]>> = {
+  [Action.APPROVE]: [Resource.LEAVE, Resource.APPLICATION],
+  [Action.REJECT]: [Resource.LEAVE, Resource.APPLICATION],
+  [Action.READ_SENSITIVE]: [Resource.USER],
+};
+
+export interface CataloguePermission {
+  slug: string;
+  name: string;
+  resource: Resource;
+  action: Action;
+  description: string;
+}
+
+// Every resource:action permission the code can check, derived from the
+// Resource and Action enums and kept in the database by the catalogue sync
+export const PERMISSION_CATALOGUE: CataloguePermission[] = Object.values(Resource).flatMap(
+  (resource) =>
+    Object.values(Action)
+      .filter((action) => ACTION_RESOURCES[action]?.includes(resource) ?? true)
+      .map((action) => ({
+        slug: `${resource}:${action}`,
+        name: `${action.charAt(0).toUpperCase() + action.slice(1)} ${resource}`,
+        resource,
+        action,
+        description: `Permission to ${action} ${resource}`,
+      }))
+);
+
+// Catalogue permissions matching the given resources and actions (all when omitted)
+export interface RolePermissionRule {
+  resources?: Resource[];
+  actions?: Action[];
+  scope?: PermissionScope;
+}
+
+// Permissions each system role holds by default. The sync adds any that are
+// missing; it never removes permissions or changes an existing scope.
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, RolePermissionRule[]> = {
+  'super-admin': [{}],
+  'hr-manager': [
+    {
+      resources: [
+        Resource.USER,
+        Resource.DEPARTMENT,
+        Resource.LEAVE,
+        Resource.PAYROLL,
+        Resource.JOB,
+        Resource.CANDIDATE,
+        Resource.APPLICATION,
+      ],
+    },
+  ],
+  // Managers act on their department and its sub-departments
+  manager: [
+    {
+      resources: [Resource.USER, Resource.DEPARTMENT],
+      actions: [Action.READ],
+      scope: PermissionScope.DEPARTMENT_TREE,
+    },
+    {
+      resources: [Resource.LEAVE],
+      actions: [Action.READ, Action.APPROVE, Action.REJECT],
+      scope: PermissionScope.DEPARTMENT_TREE,
+    },
+  ],
+  employee: [
+    { resources: [Resource.LEAVE], actions: [Action.CREATE] },
+    { resources: [Resource.NOTIFICATION], actions: [Action.READ] },
+    { resources: [Resource.FILE], actions: [Action.CREATE, Action.READ] },
+  ],
+};
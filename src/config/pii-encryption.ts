@@ -0,0 +1,147 @@
+import { Prisma } from '@prisma/client';
+import { isPiiEncryptionEnabled } from './pii-keys';
+import {
+  blindIndex,
+  decryptPii,
+  encryptPii,
+  getPiiKeyId,
+  isEncryptedPii,
+  rewrapPii,
+} from '../utils/pii-crypto';
+
+// User columns encrypted at rest. Values are encrypted on top-level user
+// writes and decrypted wherever a user is read, including nested includes.
+// Nested writes through another model (e.g. department.update with
+// users.create) are not encrypted; write users through prisma.user.
+export const USER_ENCRYPTED_FIELDS = [
+  'bankAccountNumber',
+  'taxId',
+  'emergencyContact',
+  'address',
+] as const;
+
+const encryptValue = (value: unknown, field: string): unknown => {
+  if (typeof value === 'string') {
+    return encryptPii(value, `User.${field}`);
+  }
+  // Update operations may wrap the value as { set: value }
+  if (value && typeof value === 'object' && 'set' in value) {
+    return { set: encryptValue((value as { set: unknown }).set, field) };
+  }
+  return value;
+};
+
+// Encrypt the PII fields of user create/update data and keep the taxId
+// blind index in step
+export const encryptUserData = (data: Record<string, unknown> | undefined) => {
+  if (!data) {
+    return data;
+  }
+
+  const result = { ...data };
+  for (const field of USER_ENCRYPTED_FIELDS) {
+    if (result[field] !== undefined) {
+      result[field] = encryptValue(result[field], field);
+    }
+  }
+
+  if (data.taxId !== undefined) {
+    const taxId = (data.taxId as { set?: unknown })?.set ?? data.taxId;
+    result.taxIdIndex = typeof taxId === 'string' ? blindIndex(taxId) : null;
+  }
+
+  return result;
+};
+
+// Look up { taxId: value } through the blind index. Rows written before
+// encryption was enabled still match on the plaintext column.
+export const rewriteTaxIdLookup = (where: Record<string, unknown> | undefined) => {
+  if (!where || typeof where.taxId !== 'string') {
+    return where;
+  }
+
+  const { taxId, AND, ...rest } = where;
+  const conditions = AND ? ([] as unknown[]).concat(AND) : [];
+
+  return {
+    ...rest,
+    AND: [...conditions, { OR: [{ taxIdIndex: blindIndex(taxId as string) }, { taxId }] }],
+  };
+};
+
+// Column updates that bring a user's stored PII up to date with key kid:
+// plaintext is encrypted, data keys wrapped with another key are re-wrapped
+// and a stale taxId blind index is rebuilt. Works on raw column values, as
+// read without this extension.
+export const rotateUserPii = (
+  user: Record<(typeof USER_ENCRYPTED_FIELDS)[number] | 'taxIdIndex', string | null>,
+  kid: string
+): Record<string, string | null> => {
+  const data: Record<string, string | null> = {};
+
+  for (const field of USER_ENCRYPTED_FIELDS) {
+    const value = user[field];
+    if (value === null) {
+      continue;
+    }
+    if (!isEncryptedPii(value)) {
+      data[field] = encryptPii(value, `User.${field}`);
+    } else if (getPiiKeyId(value) !== kid) {
+      data[field] = rewrapPii(value);
+    }
+  }
+
+  const taxId = decryptPii(user.taxId, 'User.taxId');
+  const taxIdIndex = taxId === null ? null : blindIndex(taxId);
+  if (taxIdIndex !== user.taxIdIndex) {
+    data.taxIdIndex = taxIdIndex;
+  }
+
+  return data;
+};
+
+const decrypted = (field: (typeof USER_ENCRYPTED_FIELDS)[number]) => ({
+  needs: { [field]: true } as Record<typeof field, true>,
+  compute: (user: Record<typeof field, string | null>) => decryptPii(user[field], `User.${field}`),
+});
+
+// Transparent field encryption for the PII columns of User
+export const piiEncryption = Prisma.defineExtension({
+  name: 'pii-encryption',
+  query: {
+    user: {
+      async $allOperations({ operation, args, query }) {
+        if (!isPiiEncryptionEnabled()) {
+          return query(args);
+        }
+
+        const params = args as Record<string, any>;
+
+        if ('where' in params) {
+          params.where = rewriteTaxIdLookup(params.where);
+        }
+
+        if (operation === 'create' || operation === 'update' || operation === 'updateMany') {
+          params.data = encryptUserData(params.data);
+        } else if (operation === 'createMany') {
+          params.data = Array.isArray(params.data)
+            ? params.data.map(encryptUserData)
+            : encryptUserData(params.data);
+        } else if (operation === 'upsert') {
+          params.create = encryptUserData(params.create);
+          params.update = encryptUserData(params.update);
+        }
+
+        return query(params as typeof args);
+      },
+    },
+  },
+  result: {
+    user: {
+      bankAccountNumber: decrypted('bankAccountNumber'),
+      taxId: decrypted('taxId'),
+      emergencyContact: decrypted('emergencyContact'),
+      address: decrypted('address'),
+    },
+  },
+});
@@ -0,0 +1,71 @@
+import env from './env';
+import logger from './logger';
+
+const KEY_LENGTH = 32;
+
+const decodeKey = (name: string, value: string): Buffer => {
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${name} must be a base64-encoded 256-bit key`);
+  }
+  return key;
+};
+
+// Key-encryption keys by ID. Each value's data key is wrapped with one of
+// them; retired keys stay configured until every value has been re-wrapped.
+const loadKeys = (): Map<string, Buffer> => {
+  const keys = new Map<string, Buffer>();
+
+  for (const [kid, value] of Object.entries(env.PII_ENCRYPTION_KEYS)) {
+    if (kid.includes(':')) {
+      throw new Error(`PII encryption key ID ${kid} must not contain ':'`);
+    }
+    keys.set(kid, decodeKey(`PII encryption key ${kid}`, value));
+  }
+
+  return keys;
+};
+
+const keys = loadKeys();
+
+const blindIndexKey = env.PII_BLIND_INDEX_KEY
+  ? decodeKey('PII_BLIND_INDEX_KEY', env.PII_BLIND_INDEX_KEY)
+  : undefined;
+
+if (keys.size > 0) {
+  if (!env.PII_ENCRYPTION_KEY_ID || !keys.has(env.PII_ENCRYPTION_KEY_ID)) {
+    throw new Error('PII_ENCRYPTION_KEY_ID must name a key in PII_ENCRYPTION_KEYS');
+  }
+  if (!blindIndexKey) {
+    throw new Error('PII_BLIND_INDEX_KEY is required when PII encryption is enabled');
+  }
+  logger.info(`Loaded ${keys.size} PII encryption key(s)`);
+} else if (env.NODE_ENV === 'production') {
+  logger.warn('PII encryption is disabled; sensitive user fields are stored in plaintext');
+}
+
+export const isPiiEncryptionEnabled = (): boolean => keys.size > 0;
+
+// Key used to wrap the data keys of new values
+export const getActivePiiKey = (): { kid: string; key: Buffer } => {
+  const key = env.PII_ENCRYPTION_KEY_ID ? keys.get(env.PII_ENCRYPTION_KEY_ID) : undefined;
+  if (!key) {
+    throw new Error('No PII encryption key configured');
+  }
+  return { kid: env.PII_ENCRYPTION_KEY_ID!, key };
+};
+
+export const getPiiKey = (kid: string): Buffer => {
+  const key = keys.get(kid);
+  if (!key) {
+    throw new Error(`PII encryption key ${kid} is not configured`);
+  }
+  return key;
+};
+
+export const getBlindIndexKey = (): Buffer => {
+  if (!blindIndexKey) {
+    throw new Error('No PII blind index key configured');
+  }
+  return blindIndexKey;
+};
@@ -75,6 +75,7 @@ const options: swaggerJsdoc.Options = {
     tags: [
       { name: 'Auth', description: 'Authentication endpoints' },
       { name: 'Users', description: 'User management' },
+      { name: 'Invitations', description: 'Employee onboarding invitations' },
       { name: 'Roles', description: 'Role and permission management' },
       { name: 'Departments', description: 'Department management' },
       { name: 'Leaves', description: 'Leave management' },
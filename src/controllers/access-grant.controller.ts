@@ -0,0 +1,93 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { PermissionScope } from '@prisma/client';
+import { AuthRequest } from '../types';
+import { RoleActor } from '../services/role.service';
+import { AccessGrantService } from '../services/access-grant.service';
+import { ApiResponseUtil } from '../utils/response';
+import { uuidSchema } from '../utils/validators';
+import logger from '../config/logger';
+
+// Validation schemas
+const createAccessGrantSchema = z.object({
+  userId: uuidSchema,
+  permissionId: uuidSchema,
+  scope: z.nativeEnum(PermissionScope).optional(),
+  reason: z.string().min(5, 'A reason is required').max(1000),
+  startsAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date(),
+  approverId: uuidSchema.optional(),
+});
+
+const getActor = (req: AuthRequest): RoleActor => ({
+  id: req.userId!,
+  roleSlug: (req.user as any).role.slug,
+  ipAddress: req.ip || req.socket.remoteAddress,
+});
+
+export class AccessGrantController {
+  // Grant a permission for a limited time (admin)
+  static async create(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = createAccessGrantSchema.parse(req.body);
+
+      const grant = await AccessGrantService.createGrant(data, getActor(req));
+
+      return ApiResponseUtil.created(res, grant, 'Access granted successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Create access grant error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Approve an access grant naming the caller as approver
+  static async approve(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const grant = await AccessGrantService.approveGrant(req.params.id, getActor(req));
+
+      return ApiResponseUtil.success(res, grant, 'Access grant approved successfully');
+    } catch (error: any) {
+      logger.error('Approve access grant error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // List access grants (admin)
+  static async list(req: AuthRequest, res: Response) {
+    try {
+      const result = await AccessGrantService.listGrants(req.query);
+
+      return ApiResponseUtil.paginated(res, result.grants, result.total, result.page, result.limit);
+    } catch (error: any) {
+      logger.error('List access grants error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Revoke an access grant before it expires (admin)
+  static async revoke(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      await AccessGrantService.revokeGrant(req.params.id, getActor(req));
+
+      return ApiResponseUtil.success(res, null, 'Access grant revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke access grant error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { Action, AuthRequest, Resource } from '../types';
+import { ApiKeyService } from '../services/api-key.service';
+import { UserService } from '../services/user.service';
+import { RoleActor } from '../services/role.service';
+import { ApiResponseUtil } from '../utils/response';
+import logger from '../config/logger';
+
+const resources = Object.values(Resource) as string[];
+const actions = Object.values(Action) as string[];
+
+// Validation schemas
+const scopeSchema = z.string().refine((scope) => {
+  const [resource, action] = scope.split(':');
+  return resources.includes(resource) && actions.includes(action);
+}, 'Scope must be a resource:action permission, e.g. payroll:read');
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  scopes: z.array(scopeSchema).min(1, 'At least one scope is required'),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+const getActor = (req: AuthRequest): RoleActor => ({
+  id: req.userId!,
+  roleSlug: (req.user as any).role.slug,
+  ipAddress: req.ip || req.socket.remoteAddress,
+});
+
+export class ApiKeyController {
+  // List the current user's API keys
+  static async getMyKeys(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const keys = await ApiKeyService.listKeys(req.userId);
+
+      return ApiResponseUtil.success(res, keys);
+    } catch (error: any) {
+      logger.error('Get API keys error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Create an API key for the current user
+  static async createMyKey(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = createApiKeySchema.parse(req.body);
+
+      const result = await ApiKeyService.createKey(req.userId, data, getActor(req));
+
+      return ApiResponseUtil.created(
+        res,
+        result,
+        'API key created. Copy it now, it will not be shown again'
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Create API key error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Revoke one of the current user's API keys
+  static async revokeMyKey(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await ApiKeyService.revokeKey(req.userId, req.params.id, req.userId, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'API key revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke API key error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // List another user's API keys (admin)
+  static async getUserKeys(req: AuthRequest, res: Response) {
+    try {
+      // Administrators can only act on users they may manage
+      if (req.params.userId !== req.userId) {
+        await UserService.getManageableUser(req.params.userId, Action.MANAGE, getActor(req));
+      }
+
+      const keys = await ApiKeyService.listKeys(req.params.userId);
+
+      return ApiResponseUtil.success(res, keys);
+    } catch (error: any) {
+      logger.error('Get user API keys error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Create an API key for another user, e.g. a service account (admin)
+  static async createUserKey(req: AuthRequest, res: Response) {
+    try {
+      const data = createApiKeySchema.parse(req.body);
+
+      const result = await ApiKeyService.createKey(req.params.userId, data, getActor(req));
+
+      return ApiResponseUtil.created(
+        res,
+        result,
+        'API key created. Copy it now, it will not be shown again'
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Create user API key error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Revoke one of another user's API keys (admin)
+  static async revokeUserKey(req: AuthRequest, res: Response) {
+    try {
+      // Administrators can only act on users they may manage
+      if (req.params.userId !== req.userId) {
+        await UserService.getManageableUser(req.params.userId, Action.MANAGE, getActor(req));
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await ApiKeyService.revokeKey(req.params.userId, req.params.id, req.userId, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'API key revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke user API key error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
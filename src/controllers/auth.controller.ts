@@ -1,11 +1,14 @@
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { z } from 'zod';
 import { AuthRequest } from '../types';
 import { AuthService } from '../services/auth.service';
+import { ImpersonationService } from '../services/impersonation.service';
 import { ApiResponseUtil } from '../utils/response';
+import { ValidationError } from '../utils/errors';
 import { emailSchema, passwordSchema } from '../utils/validators';
+import { setRefreshTokenCookie, clearRefreshTokenCookie } from '../utils/cookies';
 import logger from '../config/logger';
-import env from '../config/env';
+import { getJwks } from '../config/jwt-keys';
 
 // Validation schemas
 const registerSchema = z.object({
@@ -21,6 +24,60 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: passwordSchema,
+});
+
+const expiredPasswordSchema = z.object({
+  email: emailSchema,
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+});
+
+const secureAccountSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+const resendVerificationSchema = z.object({
+  email: emailSchema,
+});
+
+// Send the outcome of a login: a challenge that must be completed first, or
+// the session tokens
+const sendLoginResult = (res: Response, result: Awaited<ReturnType<typeof AuthService.login>>) => {
+  // Expired password must be replaced via /auth/expired-password
+  if ('passwordChangeRequired' in result) {
+    return ApiResponseUtil.success(res, result, 'Password has expired and must be changed');
+  }
+
+  // Second factor required before tokens are issued
+  if ('mfaToken' in result) {
+    return ApiResponseUtil.success(res, result, 'MFA verification required');
+  }
+
+  setRefreshTokenCookie(res, result.refreshToken);
+
+  logger.info(`User logged in: ${result.user.email}`);
+
+  return ApiResponseUtil.success(
+    res,
+    {
+      user: result.user,
+      accessToken: result.accessToken,
+    },
+    'Login successful'
+  );
+};
+
 export class AuthController {
   // Register new user
   static async register(req: AuthRequest, res: Response) {
@@ -36,6 +93,9 @@ export class AuthController {
       if (error instanceof z.ZodError) {
         return ApiResponseUtil.validationError(res, error.errors);
       }
+      if (error instanceof ValidationError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
       logger.error('Registration error:', error);
       return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
     }
@@ -55,25 +115,7 @@ export class AuthController {
         ipAddress
       );
 
-      // Set refresh token as httpOnly cookie
-      res.cookie('refreshToken', result.refreshToken, {
-        httpOnly: true,
-        secure: env.COOKIE_SECURE,
-        sameSite: env.COOKIE_SAME_SITE,
-        maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-        domain: env.COOKIE_DOMAIN,
-      });
-
-      logger.info(`User logged in: ${result.user.email}`);
-
-      return ApiResponseUtil.success(
-        res,
-        {
-          user: result.user,
-          accessToken: result.accessToken,
-        },
-        'Login successful'
-      );
+      return sendLoginResult(res, result);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return ApiResponseUtil.validationError(res, error.errors);
@@ -102,13 +144,7 @@ export class AuthController {
       );
 
       // Set new refresh token as httpOnly cookie
-      res.cookie('refreshToken', tokens.refreshToken, {
-        httpOnly: true,
-        secure: env.COOKIE_SECURE,
-        sameSite: env.COOKIE_SAME_SITE,
-        maxAge: 30 * 24 * 60 * 60 * 1000,
-        domain: env.COOKIE_DOMAIN,
-      });
+      setRefreshTokenCookie(res, tokens.refreshToken);
 
       return ApiResponseUtil.success(
         res,
@@ -129,18 +165,25 @@ export class AuthController {
     try {
       const refreshToken = req.cookies.refreshToken || req.body.refreshToken;
 
+      // Logging out of an impersonation ends it; the refresh token cookie
+      // belongs to the super admin's own session and is kept
+      if (req.userId && req.impersonatorId) {
+        const ipAddress = req.ip || req.socket.remoteAddress;
+        await ImpersonationService.stop(
+          { userId: req.userId, impersonatorId: req.impersonatorId, sessionId: req.sessionId },
+          ipAddress,
+          req.headers['user-agent']
+        );
+        return ApiResponseUtil.success(res, null, 'Impersonation ended');
+      }
+
       if (req.userId) {
         await AuthService.logout(req.userId, refreshToken);
         logger.info(`User logged out: ${req.userId}`);
       }
 
       // Clear refresh token cookie
-      res.clearCookie('refreshToken', {
-        httpOnly: true,
-        secure: env.COOKIE_SECURE,
-        sameSite: env.COOKIE_SAME_SITE,
-        domain: env.COOKIE_DOMAIN,
-      });
+      clearRefreshTokenCookie(res);
 
       return ApiResponseUtil.success(res, null, 'Logout successful');
     } catch (error: any) {
@@ -179,46 +222,160 @@ export class AuthController {
         return ApiResponseUtil.unauthorized(res);
       }
 
-      // Get user
-      const user = await AuthService.getUserWithPermissions(req.userId);
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await AuthService.changePassword(req.userId, currentPassword, newPassword, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'Password changed successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      if (error instanceof ValidationError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Change password error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Request password reset link
+  static async forgotPassword(req: AuthRequest, res: Response) {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      await AuthService.requestPasswordReset(email);
+
+      // Same response whether or not the email is registered
+      return ApiResponseUtil.success(
+        res,
+        null,
+        'If an account with that email exists, a password reset link has been sent'
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Forgot password error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Reset password with token
+  static async resetPassword(req: AuthRequest, res: Response) {
+    try {
+      const { token, newPassword } = resetPasswordSchema.parse(req.body);
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await AuthService.resetPassword(token, newPassword, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'Password reset successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      if (error instanceof ValidationError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Reset password error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // "This wasn't me" from a new-device alert: sign out everywhere and require a reset
+  static async secureAccount(req: AuthRequest, res: Response) {
+    try {
+      const { token } = secureAccountSchema.parse(req.body);
+      const userAgent = req.headers['user-agent'];
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await AuthService.secureAccount(token, userAgent, ipAddress);
+
+      clearRefreshTokenCookie(res);
+
+      return ApiResponseUtil.success(
+        res,
+        null,
+        'All sessions have been signed out. Check your email to reset your password.'
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Secure account error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
 
-      // Verify current password
-      const isValid = await AuthService.verifyPassword(
-        (user as any).password,
-        currentPassword
+  // Replace an expired password and continue the login
+  static async expiredPassword(req: AuthRequest, res: Response) {
+    try {
+      const { email, currentPassword, newPassword } = expiredPasswordSchema.parse(req.body);
+      const userAgent = req.headers['user-agent'];
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const result = await AuthService.changeExpiredPassword(
+        email,
+        currentPassword,
+        newPassword,
+        userAgent,
+        ipAddress
       );
 
-      if (!isValid) {
-        return ApiResponseUtil.error(res, 'Current password is incorrect', null, 400);
+      return sendLoginResult(res, result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError || error instanceof ValidationError) {
+        return ApiResponseUtil.validationError(res, error.errors);
       }
+      logger.error('Expired password change error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Verify email address
+  static async verifyEmail(req: AuthRequest, res: Response) {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      const ipAddress = req.ip || req.socket.remoteAddress;
 
-      // Hash new password
-      const hashedPassword = await AuthService.hashPassword(newPassword);
+      await AuthService.verifyEmail(token, ipAddress);
 
-      // Update password
-      await prisma.user.update({
-        where: { id: req.userId },
-        data: {
-          password: hashedPassword,
-          passwordChangedAt: new Date(),
-        },
-      });
+      return ApiResponseUtil.success(res, null, 'Email verified successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Verify email error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
 
-      // Revoke all refresh tokens
-      await AuthService.logout(req.userId);
+  // Resend verification email
+  static async resendVerification(req: AuthRequest, res: Response) {
+    try {
+      const { email } = resendVerificationSchema.parse(req.body);
 
-      logger.info(`Password changed for user: ${req.userId}`);
+      await AuthService.resendVerificationEmail(email);
 
-      return ApiResponseUtil.success(res, null, 'Password changed successfully');
+      // Same response whether or not the email is registered or already verified
+      return ApiResponseUtil.success(
+        res,
+        null,
+        'If the account exists and is unverified, a verification email has been sent'
+      );
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return ApiResponseUtil.validationError(res, error.errors);
       }
-      logger.error('Change password error:', error);
+      logger.error('Resend verification error:', error);
       return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
     }
   }
-}
 
-// Need to import prisma
-import prisma from '../config/database';
+  // Publish access token verification keys. Served as a bare JWK Set (not the
+  // API envelope) so standard JWT libraries can consume it.
+  static async jwks(_req: Request, res: Response) {
+    res.set('Cache-Control', 'public, max-age=300');
+    return res.json(getJwks());
+  }
+}
@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../types';
+import { ImpersonationService } from '../services/impersonation.service';
+import { ApiResponseUtil } from '../utils/response';
+import logger from '../config/logger';
+
+// Validation schemas
+const startImpersonationSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+  reason: z.string().max(500).optional(),
+});
+
+export class ImpersonationController {
+  // Start impersonating a user (super admin)
+  static async start(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { userId, reason } = startImpersonationSchema.parse(req.body);
+      const userAgent = req.headers['user-agent'];
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const result = await ImpersonationService.start(
+        req.userId,
+        userId,
+        reason,
+        ipAddress,
+        userAgent
+      );
+
+      return ApiResponseUtil.success(res, result, 'Impersonation started');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Start impersonation error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Stop the current impersonation, revoking its access token
+  static async stop(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      if (!req.impersonatorId) {
+        return ApiResponseUtil.error(res, 'You are not impersonating a user');
+      }
+
+      const userAgent = req.headers['user-agent'];
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await ImpersonationService.stop(
+        { userId: req.userId, impersonatorId: req.impersonatorId, sessionId: req.sessionId },
+        ipAddress,
+        userAgent
+      );
+
+      return ApiResponseUtil.success(res, null, 'Impersonation ended');
+    } catch (error: any) {
+      logger.error('Stop impersonation error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../types';
+import { InvitationService } from '../services/invitation.service';
+import { RoleActor } from '../services/role.service';
+import { ApiResponseUtil } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+import { emailSchema, passwordSchema, uuidSchema } from '../utils/validators';
+import logger from '../config/logger';
+
+// Validation schemas
+const createInvitationSchema = z.object({
+  email: emailSchema,
+  firstName: z.string().min(1).optional(),
+  lastName: z.string().min(1).optional(),
+  roleId: uuidSchema,
+  departmentId: uuidSchema.optional(),
+  employeeId: z.string().min(1).optional(),
+  joiningDate: z.coerce.date().optional(),
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+  password: passwordSchema,
+  firstName: z.string().min(1).optional(),
+  lastName: z.string().min(1).optional(),
+  phone: z.string().optional(),
+});
+
+const getActor = (req: AuthRequest): RoleActor => ({
+  id: req.userId!,
+  roleSlug: (req.user as any).role.slug,
+  ipAddress: req.ip || req.socket.remoteAddress,
+});
+
+export class InvitationController {
+  // Invite a new employee (admin)
+  static async create(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = createInvitationSchema.parse(req.body);
+
+      const invitation = await InvitationService.createInvitation(data, getActor(req));
+
+      return ApiResponseUtil.created(res, invitation, 'Invitation sent successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Create invitation error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // List invitations (admin)
+  static async list(req: AuthRequest, res: Response) {
+    try {
+      const result = await InvitationService.listInvitations(req.query);
+
+      return ApiResponseUtil.paginated(
+        res,
+        result.invitations,
+        result.total,
+        result.page,
+        result.limit
+      );
+    } catch (error: any) {
+      logger.error('List invitations error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Email a fresh invitation link (admin)
+  static async resend(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const invitation = await InvitationService.resendInvitation(req.params.id, getActor(req));
+
+      return ApiResponseUtil.success(res, invitation, 'Invitation resent successfully');
+    } catch (error: any) {
+      logger.error('Resend invitation error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Revoke a pending invitation (admin)
+  static async revoke(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await InvitationService.revokeInvitation(req.params.id, req.userId, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'Invitation revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke invitation error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Look up an invitation by its token, for the accept page
+  static async lookup(req: Request, res: Response) {
+    try {
+      const token = z.string().min(1, 'Invitation token is required').parse(req.query.token);
+
+      const invitation = await InvitationService.getInvitationByToken(token);
+
+      return ApiResponseUtil.success(res, invitation);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Invitation lookup error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Accept an invitation by setting a password
+  static async accept(req: Request, res: Response) {
+    try {
+      const { token, ...data } = acceptInvitationSchema.parse(req.body);
+      const userAgent = req.headers['user-agent'];
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const user = await InvitationService.acceptInvitation(token, data, userAgent, ipAddress);
+
+      logger.info(`Invitation accepted: ${user.email}`);
+
+      return ApiResponseUtil.created(res, user, 'Account created successfully, you can now log in');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      if (error instanceof ValidationError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Accept invitation error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { KnownDeviceService } from '../services/known-device.service';
+import { ApiResponseUtil } from '../utils/response';
+import logger from '../config/logger';
+
+export class KnownDeviceController {
+  // List the devices the current user has logged in from
+  static async getMyDevices(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const devices = await KnownDeviceService.listDevices(req.userId);
+
+      return ApiResponseUtil.success(res, devices);
+    } catch (error: any) {
+      logger.error('Get known devices error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Forget one of the current user's devices
+  static async removeMyDevice(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      await KnownDeviceService.removeDevice(req.userId, req.params.id);
+
+      return ApiResponseUtil.success(res, null, 'Device removed successfully');
+    } catch (error: any) {
+      logger.error('Remove known device error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
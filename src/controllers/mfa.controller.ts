@@ -0,0 +1,176 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../types';
+import { AuthService } from '../services/auth.service';
+import { MfaService } from '../services/mfa.service';
+import { ApiResponseUtil } from '../utils/response';
+import { setRefreshTokenCookie } from '../utils/cookies';
+import logger from '../config/logger';
+
+// Validation schemas
+const codeSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
+const enrollmentSchema = z.object({
+  mfaToken: z.string().optional(),
+});
+
+const confirmSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+  mfaToken: z.string().optional(),
+});
+
+const verifySchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().min(1, 'Code is required'),
+});
+
+export class MfaController {
+  // Start TOTP enrollment (signed-in user, or login setup challenge token)
+  static async setup(req: AuthRequest, res: Response) {
+    try {
+      const { mfaToken } = enrollmentSchema.parse(req.body);
+
+      const userId =
+        req.userId || (mfaToken && AuthService.verifyMfaToken(mfaToken, 'mfa_setup').userId);
+
+      if (!userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const enrollment = await MfaService.beginEnrollment(userId);
+
+      return ApiResponseUtil.success(
+        res,
+        enrollment,
+        'Scan the QR code with your authenticator app'
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('MFA setup error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Confirm TOTP enrollment. When confirming from a login setup challenge,
+  // the login is completed and tokens are issued as well.
+  static async confirm(req: AuthRequest, res: Response) {
+    try {
+      const { code, mfaToken } = confirmSchema.parse(req.body);
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const fromChallenge = !req.userId && !!mfaToken;
+      const userId =
+        req.userId || (mfaToken && AuthService.verifyMfaToken(mfaToken, 'mfa_setup').userId);
+
+      if (!userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const recoveryCodes = await MfaService.confirmEnrollment(userId, code, ipAddress);
+
+      if (!fromChallenge) {
+        return ApiResponseUtil.success(res, { recoveryCodes }, 'MFA enabled successfully');
+      }
+
+      const result = await AuthService.completeLogin(userId, req.headers['user-agent'], ipAddress);
+
+      setRefreshTokenCookie(res, result.refreshToken);
+
+      logger.info(`User logged in after MFA enrollment: ${result.user.email}`);
+
+      return ApiResponseUtil.success(
+        res,
+        {
+          user: result.user,
+          accessToken: result.accessToken,
+          recoveryCodes,
+        },
+        'MFA enabled successfully'
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('MFA confirm error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Complete login with a TOTP or recovery code
+  static async verify(req: AuthRequest, res: Response) {
+    try {
+      const { mfaToken, code } = verifySchema.parse(req.body);
+      const userAgent = req.headers['user-agent'];
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const result = await AuthService.verifyMfaLogin(mfaToken, code, userAgent, ipAddress);
+
+      setRefreshTokenCookie(res, result.refreshToken);
+
+      logger.info(`User logged in with MFA: ${result.user.email}`);
+
+      return ApiResponseUtil.success(
+        res,
+        {
+          user: result.user,
+          accessToken: result.accessToken,
+        },
+        'Login successful'
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('MFA verify error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Disable MFA
+  static async disable(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { code } = codeSchema.parse(req.body);
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await MfaService.disable(req.userId, code, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'MFA disabled successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('MFA disable error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Regenerate recovery codes
+  static async regenerateRecoveryCodes(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { code } = codeSchema.parse(req.body);
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const recoveryCodes = await MfaService.regenerateRecoveryCodes(req.userId, code, ipAddress);
+
+      return ApiResponseUtil.success(res, { recoveryCodes }, 'Recovery codes regenerated');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('MFA recovery codes error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
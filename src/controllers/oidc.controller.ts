@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { OidcService, SSO_NOT_LINKED_MESSAGE } from '../services/oidc.service';
+import { ApiResponseUtil } from '../utils/response';
+import { setRefreshTokenCookie } from '../utils/cookies';
+import logger from '../config/logger';
+import env from '../config/env';
+
+// Validation schemas
+const callbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required'),
+});
+
+// Send the browser back to the frontend, flagging a failed sign-in. Values in
+// the fragment are not sent to servers, so an MFA token stays out of logs.
+const redirectToApp = (res: Response, error?: string, fragment?: Record<string, string>) => {
+  const url = new URL(env.OIDC_POST_LOGIN_REDIRECT);
+  if (error) {
+    url.searchParams.set('error', error);
+  }
+  if (fragment) {
+    url.hash = new URLSearchParams(fragment).toString();
+  }
+  return res.redirect(url.toString());
+};
+
+// Failure reason for the frontend
+const getErrorCode = (error: any) => {
+  if (error.statusCode === 429) {
+    return 'account_locked';
+  }
+  if (error.statusCode === 403) {
+    return error.message === SSO_NOT_LINKED_MESSAGE ? 'sso_not_linked' : 'sso_forbidden';
+  }
+  return 'sso_failed';
+};
+
+export class OidcController {
+  // Start single sign-on by redirecting to the identity provider
+  static async login(_req: Request, res: Response) {
+    try {
+      const url = await OidcService.getAuthorizationUrl();
+
+      return res.redirect(url);
+    } catch (error: any) {
+      logger.error('SSO login error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Identity provider redirect target. The refresh token is set as a cookie;
+  // the frontend then obtains an access token from /api/auth/refresh. When a
+  // second factor is required, the MFA token is passed in the URL fragment.
+  static async callback(req: Request, res: Response) {
+    try {
+      if (req.query.error) {
+        logger.warn(`SSO provider returned an error: ${req.query.error}`);
+        return redirectToApp(res, 'sso_failed');
+      }
+
+      const { code, state } = callbackSchema.parse(req.query);
+      const userAgent = req.headers['user-agent'];
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const result = await OidcService.handleCallback(code, state, userAgent, ipAddress);
+
+      // A second factor is required; the frontend completes the login through
+      // /api/auth/mfa with this token. Expired passwords are not checked for SSO.
+      if (!('refreshToken' in result)) {
+        if (!result.mfaToken) {
+          return redirectToApp(res, 'sso_failed');
+        }
+
+        return redirectToApp(res, undefined, {
+          mfa: result.mfaRequired ? 'verify' : 'setup',
+          mfaToken: result.mfaToken,
+        });
+      }
+
+      setRefreshTokenCookie(res, result.refreshToken);
+
+      logger.info(`User logged in via SSO: ${result.user.email}`);
+
+      return redirectToApp(res);
+    } catch (error: any) {
+      logger.error('SSO callback error:', error);
+      return redirectToApp(res, getErrorCode(error));
+    }
+  }
+}
@@ -0,0 +1,332 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { PermissionScope } from '@prisma/client';
+import { AuthRequest, Resource, Action } from '../types';
+import { RoleActor, RoleService } from '../services/role.service';
+import { PermissionService } from '../services/permission.service';
+import { AccessReviewService } from '../services/access-review.service';
+import { ApiResponseUtil } from '../utils/response';
+import { uuidSchema } from '../utils/validators';
+import logger from '../config/logger';
+
+// Validation schemas
+const slugSchema = z
+  .string()
+  .min(2)
+  .max(50)
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase words separated by hyphens');
+
+const scopeSchema = z.nativeEnum(PermissionScope);
+
+const createRoleSchema = z.object({
+  name: z.string().min(2).max(100),
+  slug: slugSchema.optional(),
+  description: z.string().max(500).optional(),
+  mfaRequired: z.boolean().optional(),
+  permissionIds: z.array(uuidSchema).optional(),
+  scope: scopeSchema.optional(),
+});
+
+const updateRoleSchema = z.object({
+  name: z.string().min(2).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  mfaRequired: z.boolean().optional(),
+});
+
+const permissionIdsSchema = z.object({
+  permissionIds: z.array(uuidSchema),
+  scope: scopeSchema.optional(),
+});
+
+const permissionScopeSchema = z.object({
+  scope: scopeSchema,
+});
+
+const permissionPartSchema = z
+  .string()
+  .regex(/^[a-z][a-z_]*$/, 'Must be lowercase letters and underscores');
+
+const createPermissionSchema = z.object({
+  resource: permissionPartSchema,
+  action: permissionPartSchema,
+  name: z.string().min(2).max(100).optional(),
+  description: z.string().max(500).optional(),
+});
+
+const explainPermissionSchema = z.object({
+  userId: uuidSchema,
+  resource: z.nativeEnum(Resource),
+  action: z.nativeEnum(Action),
+  ownerId: uuidSchema.optional(),
+});
+
+const accessMatrixSchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+const getActor = (req: AuthRequest): RoleActor => ({
+  id: req.userId!,
+  roleSlug: (req.user as any).role.slug,
+  ipAddress: req.ip || req.socket.remoteAddress,
+});
+
+export class RoleController {
+  // List roles with their permissions
+  static async list(_req: AuthRequest, res: Response) {
+    try {
+      const roles = await RoleService.getAllRoles();
+
+      return ApiResponseUtil.success(res, roles);
+    } catch (error: any) {
+      logger.error('List roles error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Get a role with its permissions
+  static async getById(req: AuthRequest, res: Response) {
+    try {
+      const role = await RoleService.getRoleById(req.params.id);
+
+      return ApiResponseUtil.success(res, role);
+    } catch (error: any) {
+      logger.error('Get role error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Create a custom role
+  static async create(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = createRoleSchema.parse(req.body);
+
+      const role = await RoleService.createRole(data, getActor(req));
+
+      return ApiResponseUtil.created(res, role, 'Role created successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Create role error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Update a role's name, description or MFA requirement
+  static async update(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = updateRoleSchema.parse(req.body);
+
+      const role = await RoleService.updateRole(req.params.id, data, getActor(req));
+
+      return ApiResponseUtil.success(res, role, 'Role updated successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Update role error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Delete a custom role
+  static async delete(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      await RoleService.deleteRole(req.params.id, getActor(req));
+
+      return ApiResponseUtil.success(res, null, 'Role deleted successfully');
+    } catch (error: any) {
+      logger.error('Delete role error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Grant several permissions to a role
+  static async addPermissions(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { permissionIds, scope } = permissionIdsSchema.parse(req.body);
+
+      const role = await RoleService.addPermissions(
+        req.params.id,
+        permissionIds,
+        getActor(req),
+        scope
+      );
+
+      return ApiResponseUtil.success(res, role, 'Permissions assigned successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Assign role permissions error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Replace a role's permissions
+  static async setPermissions(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { permissionIds, scope } = permissionIdsSchema.parse(req.body);
+
+      const role = await RoleService.setPermissions(
+        req.params.id,
+        permissionIds,
+        getActor(req),
+        scope
+      );
+
+      return ApiResponseUtil.success(res, role, 'Permissions updated successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Set role permissions error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Change the scope of a role's permission
+  static async updatePermissionScope(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { scope } = permissionScopeSchema.parse(req.body);
+
+      const role = await RoleService.updatePermissionScope(
+        req.params.id,
+        req.params.permissionId,
+        scope,
+        getActor(req)
+      );
+
+      return ApiResponseUtil.success(res, role, 'Permission scope updated successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Update role permission scope error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Remove a permission from a role
+  static async removePermission(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      await RoleService.removePermission(req.params.id, req.params.permissionId, getActor(req));
+
+      return ApiResponseUtil.success(res, null, 'Permission removed successfully');
+    } catch (error: any) {
+      logger.error('Remove role permission error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // List the permission catalogue
+  static async listPermissions(_req: AuthRequest, res: Response) {
+    try {
+      const permissions = await PermissionService.getAllPermissions();
+
+      return ApiResponseUtil.success(res, permissions);
+    } catch (error: any) {
+      logger.error('List permissions error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Add a permission to the catalogue
+  static async createPermission(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = createPermissionSchema.parse(req.body);
+
+      const permission = await RoleService.createPermission(data, getActor(req));
+
+      return ApiResponseUtil.created(res, permission, 'Permission created successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Create permission error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Explain whether a user may perform an action on a resource
+  static async explainPermission(req: AuthRequest, res: Response) {
+    try {
+      const { userId, resource, action, ownerId } = explainPermissionSchema.parse(req.query);
+
+      const explanation = await AccessReviewService.explainPermission(
+        userId,
+        resource,
+        action,
+        ownerId
+      );
+
+      return ApiResponseUtil.success(res, explanation);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Explain permission error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Export the role x permission matrix for access reviews
+  static async exportAccessMatrix(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { format } = accessMatrixSchema.parse(req.query);
+
+      const matrix = await AccessReviewService.exportAccessMatrix(format, getActor(req));
+
+      if (format === 'csv') {
+        const date = matrix.generatedAt.toISOString().slice(0, 10);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="access-matrix-${date}.csv"`);
+        return res.send(AccessReviewService.accessMatrixToCsv(matrix));
+      }
+
+      return ApiResponseUtil.success(res, matrix);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Export access matrix error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
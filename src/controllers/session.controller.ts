@@ -0,0 +1,139 @@
+import { Response } from 'express';
+import { Action, AuthRequest } from '../types';
+import { SessionService } from '../services/session.service';
+import { UserService } from '../services/user.service';
+import { RoleActor } from '../services/role.service';
+import { ApiResponseUtil } from '../utils/response';
+import logger from '../config/logger';
+
+const getActor = (req: AuthRequest): RoleActor => ({
+  id: req.userId!,
+  roleSlug: (req.user as any).role.slug,
+  ipAddress: req.ip || req.socket.remoteAddress,
+});
+
+export class SessionController {
+  // List the current user's active sessions
+  static async getMySessions(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const sessions = await SessionService.listSessions(req.userId, req.sessionId);
+
+      return ApiResponseUtil.success(res, sessions);
+    } catch (error: any) {
+      logger.error('Get sessions error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Revoke one of the current user's sessions
+  static async revokeMySession(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await SessionService.revokeSession(req.userId, req.params.id, req.userId, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'Session revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke session error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Sign out everywhere except the current session
+  static async revokeOtherSessions(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      if (!req.sessionId) {
+        return ApiResponseUtil.error(
+          res,
+          'Current session could not be determined, please log in again'
+        );
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const count = await SessionService.revokeAllSessions(
+        req.userId,
+        req.sessionId,
+        req.userId,
+        ipAddress
+      );
+
+      return ApiResponseUtil.success(res, { count }, 'Other sessions revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke other sessions error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // List another user's active sessions (admin)
+  static async getUserSessions(req: AuthRequest, res: Response) {
+    try {
+      // Administrators can only act on users they may manage
+      if (req.params.userId !== req.userId) {
+        await UserService.getManageableUser(req.params.userId, Action.MANAGE, getActor(req));
+      }
+
+      const sessions = await SessionService.listSessions(req.params.userId);
+
+      return ApiResponseUtil.success(res, sessions);
+    } catch (error: any) {
+      logger.error('Get user sessions error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Revoke one of another user's sessions (admin)
+  static async revokeUserSession(req: AuthRequest, res: Response) {
+    try {
+      // Administrators can only act on users they may manage
+      if (req.params.userId !== req.userId) {
+        await UserService.getManageableUser(req.params.userId, Action.MANAGE, getActor(req));
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      await SessionService.revokeSession(req.params.userId, req.params.id, req.userId, ipAddress);
+
+      return ApiResponseUtil.success(res, null, 'Session revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke user session error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Revoke all of another user's sessions, e.g. for a compromised account (admin)
+  static async revokeAllUserSessions(req: AuthRequest, res: Response) {
+    try {
+      // Administrators can only act on users they may manage
+      if (req.params.userId !== req.userId) {
+        await UserService.getManageableUser(req.params.userId, Action.MANAGE, getActor(req));
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const count = await SessionService.revokeAllSessions(
+        req.params.userId,
+        undefined,
+        req.userId,
+        ipAddress
+      );
+
+      return ApiResponseUtil.success(res, { count }, 'All sessions revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke all user sessions error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { PermissionEffect, PermissionScope } from '@prisma/client';
+import { AuthRequest } from '../types';
+import { RoleActor } from '../services/role.service';
+import { UserAccessService } from '../services/user-access.service';
+import { ApiResponseUtil } from '../utils/response';
+import { uuidSchema } from '../utils/validators';
+import logger from '../config/logger';
+
+// Validation schemas
+const assignRoleSchema = z.object({
+  roleId: uuidSchema,
+});
+
+const permissionOverrideSchema = z.object({
+  effect: z.nativeEnum(PermissionEffect),
+  scope: z.nativeEnum(PermissionScope).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+const getActor = (req: AuthRequest): RoleActor => ({
+  id: req.userId!,
+  roleSlug: (req.user as any).role.slug,
+  ipAddress: req.ip || req.socket.remoteAddress,
+});
+
+export class UserAccessController {
+  // Get a user's roles, overrides and effective permissions
+  static async get(req: AuthRequest, res: Response) {
+    try {
+      const access = await UserAccessService.getUserAccess(req.params.userId);
+
+      return ApiResponseUtil.success(res, access);
+    } catch (error: any) {
+      logger.error('Get user access error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Give a user an additional role (admin)
+  static async assignRole(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const { roleId } = assignRoleSchema.parse(req.body);
+
+      const access = await UserAccessService.assignRole(req.params.userId, roleId, getActor(req));
+
+      return ApiResponseUtil.success(res, access, 'Role assigned successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Assign user role error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Remove one of a user's additional roles (admin)
+  static async removeRole(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const access = await UserAccessService.removeRole(
+        req.params.userId,
+        req.params.roleId,
+        getActor(req)
+      );
+
+      return ApiResponseUtil.success(res, access, 'Role removed successfully');
+    } catch (error: any) {
+      logger.error('Remove user role error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Grant or deny a permission for a user (admin)
+  static async setPermissionOverride(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = permissionOverrideSchema.parse(req.body);
+
+      const access = await UserAccessService.setPermissionOverride(
+        req.params.userId,
+        req.params.permissionId,
+        data,
+        getActor(req)
+      );
+
+      return ApiResponseUtil.success(res, access, 'Permission override saved successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Set permission override error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Remove a user's permission override (admin)
+  static async removePermissionOverride(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const access = await UserAccessService.removePermissionOverride(
+        req.params.userId,
+        req.params.permissionId,
+        getActor(req)
+      );
+
+      return ApiResponseUtil.success(res, access, 'Permission override removed successfully');
+    } catch (error: any) {
+      logger.error('Remove permission override error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
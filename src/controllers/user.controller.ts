@@ -0,0 +1,241 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { Action, AuthRequest } from '../types';
+import { UserService } from '../services/user.service';
+import { RoleActor } from '../services/role.service';
+import { UserWithPermissions } from '../services/permission.service';
+import { LoginLockoutService } from '../services/login-lockout.service';
+import { ApiResponseUtil } from '../utils/response';
+import { emailSchema, passwordSchema, uuidSchema } from '../utils/validators';
+import logger from '../config/logger';
+
+// Validation schemas
+const nameSchema = z.string().trim().min(1).max(100);
+
+const listUsersSchema = z.object({
+  page: z.string().optional(),
+  limit: z.string().optional(),
+  sortBy: z
+    .enum(['createdAt', 'firstName', 'lastName', 'email', 'employeeId', 'joiningDate'])
+    .optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  search: z.string().max(100).optional(),
+  roleId: uuidSchema.optional(),
+  departmentId: uuidSchema.optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+});
+
+// Personal details; the only fields users can change themselves
+const profileFields = {
+  firstName: nameSchema,
+  lastName: nameSchema,
+  phone: z.string().max(30),
+  address: z.string().max(500),
+  emergencyContact: z.string().max(200),
+};
+
+// Employment and payroll details, set by administrators
+const employmentFields = {
+  departmentId: uuidSchema,
+  managerId: uuidSchema,
+  employeeId: z.string().min(1).max(50),
+  joiningDate: z.coerce.date(),
+  dateOfBirth: z.coerce.date(),
+  bankAccountNumber: z.string().max(34),
+  taxId: z.string().max(30),
+};
+
+const createUserSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  firstName: profileFields.firstName,
+  lastName: profileFields.lastName,
+  roleId: uuidSchema,
+  phone: profileFields.phone.optional(),
+  address: profileFields.address.optional(),
+  emergencyContact: profileFields.emergencyContact.optional(),
+  departmentId: employmentFields.departmentId.optional(),
+  managerId: employmentFields.managerId.optional(),
+  employeeId: employmentFields.employeeId.optional(),
+  joiningDate: employmentFields.joiningDate.optional(),
+  dateOfBirth: employmentFields.dateOfBirth.optional(),
+  bankAccountNumber: employmentFields.bankAccountNumber.optional(),
+  taxId: employmentFields.taxId.optional(),
+});
+
+const adminUpdateUserSchema = z
+  .object({
+    email: emailSchema.optional(),
+    password: passwordSchema.optional(),
+    firstName: profileFields.firstName.optional(),
+    lastName: profileFields.lastName.optional(),
+    roleId: uuidSchema.optional(),
+    isActive: z.boolean().optional(),
+    phone: profileFields.phone.nullable().optional(),
+    address: profileFields.address.nullable().optional(),
+    emergencyContact: profileFields.emergencyContact.nullable().optional(),
+    departmentId: employmentFields.departmentId.nullable().optional(),
+    managerId: employmentFields.managerId.nullable().optional(),
+    employeeId: employmentFields.employeeId.nullable().optional(),
+    joiningDate: employmentFields.joiningDate.nullable().optional(),
+    dateOfBirth: employmentFields.dateOfBirth.nullable().optional(),
+    bankAccountNumber: employmentFields.bankAccountNumber.nullable().optional(),
+    taxId: employmentFields.taxId.nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+const updateProfileSchema = z
+  .object({
+    firstName: profileFields.firstName.optional(),
+    lastName: profileFields.lastName.optional(),
+    phone: profileFields.phone.nullable().optional(),
+    address: profileFields.address.nullable().optional(),
+    emergencyContact: profileFields.emergencyContact.nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+const getActor = (req: AuthRequest): RoleActor => ({
+  id: req.userId!,
+  roleSlug: (req.user as any).role.slug,
+  ipAddress: req.ip || req.socket.remoteAddress,
+});
+
+// req.user as loaded by authenticate, with effective permissions
+const getViewer = (req: AuthRequest) => req.user as unknown as UserWithPermissions;
+
+export class UserController {
+  // List users within the scope of the caller's user:read
+  static async list(req: AuthRequest, res: Response) {
+    try {
+      const query = listUsersSchema.parse(req.query);
+
+      const result = await UserService.getAllUsers(query, getViewer(req));
+
+      return ApiResponseUtil.paginated(res, result.users, result.total, result.page, result.limit);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('List users error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Get a user; sensitive fields are masked unless the caller may see them
+  static async getById(req: AuthRequest, res: Response) {
+    try {
+      const user = await UserService.getUserById(req.params.userId, getViewer(req));
+
+      return ApiResponseUtil.success(res, user);
+    } catch (error: any) {
+      logger.error('Get user error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Create a user (admin)
+  static async create(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = createUserSchema.parse(req.body);
+
+      const user = await UserService.createUser(data, getActor(req));
+
+      return ApiResponseUtil.created(res, user, 'User created successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Create user error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Update any of a user's details (admin)
+  static async update(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = adminUpdateUserSchema.parse(req.body);
+
+      const user = await UserService.updateUser(req.params.userId, data, getActor(req));
+
+      return ApiResponseUtil.success(res, user, 'User updated successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Update user error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Update the caller's own profile
+  static async updateProfile(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      const data = updateProfileSchema.parse(req.body);
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const user = await UserService.updateProfile(req.userId, data, ipAddress);
+
+      return ApiResponseUtil.success(res, user, 'Profile updated successfully');
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error.errors);
+      }
+      logger.error('Update profile error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Delete a user (admin)
+  static async delete(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      await UserService.deleteUser(req.params.userId, getActor(req));
+
+      return ApiResponseUtil.success(res, null, 'User deleted successfully');
+    } catch (error: any) {
+      logger.error('Delete user error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+
+  // Lift a login lockout before its cooldown ends (admin)
+  static async unlock(req: AuthRequest, res: Response) {
+    try {
+      if (!req.userId) {
+        return ApiResponseUtil.unauthorized(res);
+      }
+
+      // Only an administrator managing the user can unlock them, never the user
+      // themselves (e.g. with a stolen session)
+      await UserService.getManageableUser(req.params.userId, Action.MANAGE, getActor(req));
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+
+      const wasLocked = await LoginLockoutService.unlockUser(
+        req.params.userId,
+        req.userId,
+        ipAddress
+      );
+
+      return ApiResponseUtil.success(res, { wasLocked }, 'Account unlocked successfully');
+    } catch (error: any) {
+      logger.error('Unlock user error:', error);
+      return ApiResponseUtil.error(res, error.message, null, error.statusCode || 500);
+    }
+  }
+}
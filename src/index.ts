@@ -8,6 +8,8 @@ import notificationService from './services/notification.service';
 
 // Import queues to initialize workers
 import './queues/email.queue';
+import { scheduleAccessGrantExpiry } from './queues/access-grant.queue';
+import { PermissionCatalogueService } from './services/permission-catalogue.service';
 
 const server = http.createServer(app);
 
@@ -68,6 +70,19 @@ const startServer = async () => {
     // Connect to Redis
     await connectRedis();
 
+    // Make every Resource/Action permission exist and be assigned to its default roles
+    if (env.PERMISSION_SYNC_ON_BOOT !== 'off') {
+      const diff = await PermissionCatalogueService.sync({
+        dryRun: env.PERMISSION_SYNC_ON_BOOT === 'dry-run',
+      });
+      if (env.PERMISSION_SYNC_ON_BOOT === 'dry-run') {
+        logger.info(`Permission catalogue diff:\n${PermissionCatalogueService.formatDiff(diff)}`);
+      }
+    }
+
+    // Expire time-bound access grants in the background
+    await scheduleAccessGrantExpiry();
+
     // Start HTTP server
     server.listen(env.PORT, '0.0.0.0', () => {
       logger.info(`Server running on port ${env.PORT}`);
@@ -1,15 +1,45 @@
 import { Response, NextFunction } from 'express';
-import { AuthRequest } from '../types';
+import { AuthRequest, EmailVerificationPolicy } from '../types';
 import { AuthService } from '../services/auth.service';
+import { API_KEY_PREFIX, ApiKeyService } from '../services/api-key.service';
 import { ApiResponseUtil } from '../utils/response';
+import { runWithRequestContext } from '../utils/request-context';
 import logger from '../config/logger';
 
+// API keys are accepted in X-API-Key or as a bearer token with the key prefix
+const getApiKey = (req: AuthRequest): string | undefined => {
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string') {
+    return apiKeyHeader;
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.substring(7);
+  }
+
+  return undefined;
+};
+
 export const authenticate = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<any> => {
   try {
+    const apiKey = getApiKey(req);
+    if (apiKey) {
+      const ipAddress = req.ip || req.socket.remoteAddress;
+      const result = await ApiKeyService.authenticate(apiKey, ipAddress);
+
+      req.user = result.user as any;
+      req.userId = result.user.id;
+      req.apiKeyId = result.apiKeyId;
+      req.apiKeyScopes = result.scopes;
+
+      return next();
+    }
+
     // Get token from Authorization header
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -18,15 +48,19 @@ export const authenticate = async (
 
     const token = authHeader.substring(7);
 
-    // Verify token
-    const payload = AuthService.verifyAccessToken(token);
-
-    // Get user with permissions
-    const user = await AuthService.getUserWithPermissions(payload.userId);
+    // Verify token, check revocation and get user with permissions
+    const { user, payload } = await AuthService.authenticateAccessToken(token);
 
     // Attach user to request
     req.user = user as any;
     req.userId = user.id;
+    req.sessionId = payload.sessionId;
+
+    // Audit entries written during an impersonated request record the real actor
+    if (payload.impersonatorId) {
+      req.impersonatorId = payload.impersonatorId;
+      return runWithRequestContext({ impersonatorId: payload.impersonatorId }, next);
+    }
 
     next();
   } catch (error: any) {
@@ -44,10 +78,15 @@ export const optionalAuth = async (
     const authHeader = req.headers.authorization;
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
-      const payload = AuthService.verifyAccessToken(token);
-      const user = await AuthService.getUserWithPermissions(payload.userId);
+      const { user, payload } = await AuthService.authenticateAccessToken(token);
       req.user = user as any;
       req.userId = user.id;
+      req.sessionId = payload.sessionId;
+
+      if (payload.impersonatorId) {
+        req.impersonatorId = payload.impersonatorId;
+        return runWithRequestContext({ impersonatorId: payload.impersonatorId }, next);
+      }
     }
     next();
   } catch (error) {
@@ -55,3 +94,47 @@ export const optionalAuth = async (
     next();
   }
 };
+
+// Reject API keys and impersonation on account management routes (keys,
+// sessions, password, MFA) so neither can take over the account. Must run after
+// authenticate.
+export const requireUserSession = (req: AuthRequest, res: Response, next: NextFunction): any => {
+  if (req.apiKeyId) {
+    return ApiResponseUtil.forbidden(res, 'This action is not available to API keys');
+  }
+  if (req.impersonatorId) {
+    return ApiResponseUtil.forbidden(res, 'This action is not available while impersonating');
+  }
+  next();
+};
+
+// Block unverified accounts from sensitive routes unless the policy is off.
+// Must run after authenticate.
+export const requireVerifiedEmail = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<any> => {
+  try {
+    if (!req.user) {
+      return ApiResponseUtil.unauthorized(res, 'Authentication required');
+    }
+
+    if (req.user.isEmailVerified) {
+      return next();
+    }
+
+    const policy = await AuthService.getEmailVerificationPolicy();
+    if (policy === EmailVerificationPolicy.OFF) {
+      return next();
+    }
+
+    return ApiResponseUtil.forbidden(
+      res,
+      'Please verify your email address to access this resource'
+    );
+  } catch (error: any) {
+    logger.error('Email verification check error:', error);
+    return ApiResponseUtil.serverError(res, error.message);
+  }
+};
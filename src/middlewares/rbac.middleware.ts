@@ -1,9 +1,29 @@
 import { Response, NextFunction } from 'express';
+import { PermissionScope } from '@prisma/client';
 import { AuthRequest, Resource, Action } from '../types';
-import { PermissionService } from '../services/permission.service';
+import { PermissionService, UserWithPermissions } from '../services/permission.service';
 import { ApiResponseUtil } from '../utils/response';
 import logger from '../config/logger';
 
+// API keys may only use permissions within their scopes
+const isWithinApiKeyScopes = (req: AuthRequest, resource: Resource, action: Action) => {
+  return !req.apiKeyScopes || req.apiKeyScopes.includes(`${resource}:${action}`);
+};
+
+// Use the permissions authenticate loaded on req.user; look them up only
+// when the request has no loaded user
+const getPermissionUser = async (req: AuthRequest) => {
+  if (req.user && 'role' in req.user) {
+    return req.user as unknown as UserWithPermissions;
+  }
+  return PermissionService.loadUserWithPermissions(req.userId!);
+};
+
+const checkPermission = async (req: AuthRequest, resource: Resource, action: Action) => {
+  const user = await getPermissionUser(req);
+  return !!user && PermissionService.userHasPermission(user, resource, action);
+};
+
 // Check if user has specific permission
 export const requirePermission = (resource: Resource, action: Action) => {
   return async (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
@@ -12,11 +32,9 @@ export const requirePermission = (resource: Resource, action: Action) => {
         return ApiResponseUtil.unauthorized(res, 'Authentication required');
       }
 
-      const hasPermission = await PermissionService.hasPermission(
-        req.userId,
-        resource,
-        action
-      );
+      const hasPermission =
+        isWithinApiKeyScopes(req, resource, action) &&
+        (await checkPermission(req, resource, action));
 
       if (!hasPermission) {
         logger.warn(
@@ -45,11 +63,9 @@ export const requireAnyPermission = (permissions: Array<{ resource: Resource; ac
       }
 
       for (const perm of permissions) {
-        const hasPermission = await PermissionService.hasPermission(
-          req.userId,
-          perm.resource,
-          perm.action
-        );
+        const hasPermission =
+          isWithinApiKeyScopes(req, perm.resource, perm.action) &&
+          (await checkPermission(req, perm.resource, perm.action));
         if (hasPermission) {
           return next();
         }
@@ -77,6 +93,11 @@ export const requireRole = (roleSlugs: string | string[]) => {
         return ApiResponseUtil.unauthorized(res, 'Authentication required');
       }
 
+      // Roles cannot be expressed as API key scopes
+      if (req.apiKeyId) {
+        return ApiResponseUtil.forbidden(res, 'This action is not available to API keys');
+      }
+
       const allowedRoles = Array.isArray(roleSlugs) ? roleSlugs : [roleSlugs];
       const userRole = (req.user as any).role.slug;
 
@@ -98,11 +119,12 @@ export const requireRole = (roleSlugs: string | string[]) => {
   };
 };
 
-// Check if user owns the resource or has permission
+// Check if user owns the resource or holds the permission in a scope that
+// covers the owner (e.g. their direct reports or department)
 export const requireOwnershipOrPermission = (
   resource: Resource,
   action: Action,
-  getOwnerId: (req: AuthRequest) => string | undefined
+  getOwnerId: (req: AuthRequest) => string | undefined | Promise<string | undefined>
 ) => {
   return async (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
     try {
@@ -110,19 +132,27 @@ export const requireOwnershipOrPermission = (
         return ApiResponseUtil.unauthorized(res, 'Authentication required');
       }
 
-      const ownerId = getOwnerId(req);
+      // API keys need the scope even for their owner's resources
+      if (!isWithinApiKeyScopes(req, resource, action)) {
+        return ApiResponseUtil.forbidden(res, "You don't have permission to perform this action");
+      }
+
+      const ownerId = await getOwnerId(req);
 
       // Check ownership
       if (ownerId && req.userId === ownerId) {
         return next();
       }
 
-      // Check permission
-      const hasPermission = await PermissionService.hasPermission(
-        req.userId,
-        resource,
-        action
-      );
+      // Check permission; without a known owner only an unrestricted one applies
+      const user = await getPermissionUser(req);
+      const hasPermission =
+        !!user &&
+        (ownerId
+          ? await PermissionService.userHasScopedPermission(user, resource, action, ownerId)
+          : PermissionService.getPermissionScopes(user, resource, action).includes(
+              PermissionScope.ALL
+            ));
 
       if (!hasPermission) {
         logger.warn(
@@ -21,13 +21,14 @@ export const securityHeaders = helmet({
   },
 });
 
-// Rate limiting
+// Rate limiting (disabled in tests, where every request comes from one IP)
 export const rateLimiter = rateLimit({
   windowMs: env.RATE_LIMIT_WINDOW_MS,
   max: env.RATE_LIMIT_MAX_REQUESTS,
   message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  skip: () => env.NODE_ENV === 'test',
   handler: (req: Request, res: Response) => {
     logger.warn(`Rate limit exceeded for IP: ${req.ip}`);
     res.status(429).json({
@@ -37,13 +38,37 @@ export const rateLimiter = rateLimit({
   },
 });
 
-// Strict rate limiter for auth endpoints
-export const authRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5,
-  message: 'Too many authentication attempts, please try again later.',
-  skipSuccessfulRequests: true,
-});
+// Strict rate limiter for an auth flow. Each flow has its own store, so
+// failures in one flow do not block another (e.g. login).
+const createAuthRateLimiter = (flow: string) =>
+  rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 5,
+    message: 'Too many authentication attempts, please try again later.',
+    skipSuccessfulRequests: true,
+    standardHeaders: true,
+    legacyHeaders: false,
+    skip: () => env.NODE_ENV === 'test',
+    handler: (req: Request, res: Response) => {
+      logger.warn(`Auth rate limit exceeded for ${flow} from IP: ${req.ip}`);
+      res.status(429).json({
+        success: false,
+        message: 'Too many authentication attempts, please try again later.',
+      });
+    },
+  });
+
+// Login and the expired-password step of login
+export const loginRateLimiter = createAuthRateLimiter('login');
+
+// Forgot/reset password and securing an account by emailed token
+export const passwordResetRateLimiter = createAuthRateLimiter('password reset');
+
+// MFA code verification during login
+export const mfaRateLimiter = createAuthRateLimiter('MFA verification');
+
+// Invitation lookup and acceptance by token
+export const invitationRateLimiter = createAuthRateLimiter('invitation');
 
 // Request logging middleware
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
@@ -78,5 +103,5 @@ export const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
 };
@@ -0,0 +1,48 @@
+import { Queue, Worker } from 'bullmq';
+import redis from '../config/redis';
+import logger from '../config/logger';
+import { AccessGrantService } from '../services/access-grant.service';
+
+// How often expired access grants are processed
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 1000;
+
+export const accessGrantQueue = new Queue('access-grants', {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: {
+      count: 100,
+    },
+    removeOnFail: {
+      count: 100,
+    },
+  },
+});
+
+// Access grant worker
+new Worker(
+  'access-grants',
+  async (job) => {
+    if (job.name === 'expire-grants') {
+      return { expired: await AccessGrantService.expireGrants() };
+    }
+
+    throw new Error(`Unknown access grant job: ${job.name}`);
+  },
+  {
+    connection: redis,
+  }
+).on('failed', (job, error) => {
+  logger.error(`Access grant job ${job?.id} failed:`, error);
+});
+
+// Register the repeating expiry job; safe to call on every start
+export const scheduleAccessGrantExpiry = async () => {
+  return accessGrantQueue.add(
+    'expire-grants',
+    {},
+    {
+      repeat: { every: EXPIRY_CHECK_INTERVAL_MS },
+      jobId: 'expire-access-grants',
+    }
+  );
+};
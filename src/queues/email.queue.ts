@@ -41,6 +41,43 @@ new Worker(
           await emailService.sendPasswordResetEmail(data.to, data.resetToken);
           break;
 
+        case 'email-verification':
+          await emailService.sendEmailVerificationEmail(
+            data.to,
+            data.firstName,
+            data.verificationToken
+          );
+          break;
+
+        case 'invitation':
+          await emailService.sendInvitationEmail(
+            data.to,
+            data.firstName,
+            data.invitationToken,
+            new Date(data.expiresAt)
+          );
+          break;
+
+        case 'security-alert':
+          await emailService.sendSecurityAlertEmail(
+            data.to,
+            data.firstName,
+            data.title,
+            data.message
+          );
+          break;
+
+        case 'new-device-login':
+          await emailService.sendNewDeviceLoginEmail(
+            data.to,
+            data.firstName,
+            data.device,
+            data.ipAddress,
+            new Date(data.loginAt),
+            data.secureAccountToken
+          );
+          break;
+
         case 'leave-request':
           await emailService.sendLeaveRequestNotification(
             data.to,
@@ -117,6 +154,62 @@ export const queuePasswordResetEmail = async (to: string, resetToken: string) =>
   });
 };
 
+export const queueEmailVerificationEmail = async (
+  to: string,
+  firstName: string,
+  verificationToken: string
+) => {
+  return emailQueue.add('email-verification-email', {
+    type: 'email-verification',
+    data: { to, firstName, verificationToken },
+  });
+};
+
+export const queueInvitationEmail = async (
+  to: string,
+  firstName: string,
+  invitationToken: string,
+  expiresAt: Date
+) => {
+  return emailQueue.add('invitation-email', {
+    type: 'invitation',
+    data: { to, firstName, invitationToken, expiresAt: expiresAt.toISOString() },
+  });
+};
+
+export const queueSecurityAlertEmail = async (
+  to: string,
+  firstName: string,
+  title: string,
+  message: string
+) => {
+  return emailQueue.add('security-alert-email', {
+    type: 'security-alert',
+    data: { to, firstName, title, message },
+  });
+};
+
+export const queueNewDeviceLoginEmail = async (
+  to: string,
+  firstName: string,
+  device: string,
+  ipAddress: string,
+  loginAt: Date,
+  secureAccountToken: string
+) => {
+  return emailQueue.add('new-device-login-email', {
+    type: 'new-device-login',
+    data: {
+      to,
+      firstName,
+      device,
+      ipAddress,
+      loginAt: loginAt.toISOString(),
+      secureAccountToken,
+    },
+  });
+};
+
 export const queueLeaveRequestEmail = async (
   to: string,
   employeeName: string,
@@ -0,0 +1,155 @@
+import { Router } from 'express';
+import { AccessGrantController } from '../controllers/access-grant.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { requireAnyPermission, requirePermission } from '../middlewares/rbac.middleware';
+import { Resource, Action } from '../types';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/access-grants:
+ *   get:
+ *     summary: List time-bound access grants
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, scheduled, pending_approval, expired, revoked]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated access grants
+ */
+router.get(
+  '/',
+  authenticate,
+  requireAnyPermission([
+    { resource: Resource.ROLE, action: Action.READ },
+    { resource: Resource.ROLE, action: Action.MANAGE },
+  ]),
+  AccessGrantController.list
+);
+
+/**
+ * @swagger
+ * /api/access-grants:
+ *   post:
+ *     summary: Grant a user a permission for a limited time
+ *     description: The grant applies from startsAt (default now) until expiresAt, at most 90 days, and only once approved if it names an approver. When it expires the holder and HR are notified.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - permissionId
+ *               - reason
+ *               - expiresAt
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 format: uuid
+ *               permissionId:
+ *                 type: string
+ *                 format: uuid
+ *               scope:
+ *                 type: string
+ *                 enum: [OWN, DIRECT_REPORTS, DEPARTMENT, DEPARTMENT_TREE, ALL]
+ *               reason:
+ *                 type: string
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               approverId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Someone other than the caller and the holder who must approve the grant
+ *     responses:
+ *       201:
+ *         description: Access granted
+ *       403:
+ *         description: The user is outside the caller's user:update scope, or the permission cannot be granted by the caller
+ */
+router.post(
+  '/',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  AccessGrantController.create
+);
+
+/**
+ * @swagger
+ * /api/access-grants/{id}/approve:
+ *   post:
+ *     summary: Approve an access grant naming the caller as approver
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Access grant approved and applies from startsAt
+ *       400:
+ *         description: The grant is not awaiting approval
+ *       403:
+ *         description: The caller is not the approver or cannot grant the permission
+ */
+router.post('/:id/approve', authenticate, AccessGrantController.approve);
+
+/**
+ * @swagger
+ * /api/access-grants/{id}:
+ *   delete:
+ *     summary: Revoke an access grant before it expires
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Access grant revoked
+ *       404:
+ *         description: No active or scheduled grant with this ID
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  AccessGrantController.revoke
+);
+
+export default router;
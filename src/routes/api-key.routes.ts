@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/api-key.controller';
+import { authenticate, requireUserSession } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// All API key routes require a signed-in user (not an API key)
+router.use(authenticate, requireUserSession);
+
+/**
+ * @swagger
+ * /api/auth/api-keys:
+ *   get:
+ *     summary: List the current user's API keys
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys (without secrets)
+ */
+router.get('/', ApiKeyController.getMyKeys);
+
+/**
+ * @swagger
+ * /api/auth/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The key is returned once. Scopes are resource:action permissions the user holds.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: payroll:read
+ *               expiresInDays:
+ *                 type: integer
+ *                 default: 90
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       403:
+ *         description: Requested scopes exceed the user's permissions
+ */
+router.post('/', ApiKeyController.createMyKey);
+
+/**
+ * @swagger
+ * /api/auth/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke one of the current user's API keys
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       404:
+ *         description: API key not found
+ */
+router.delete('/:id', ApiKeyController.revokeMyKey);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
-import { authenticate, optionalAuth } from '../middlewares/auth.middleware';
+import { authenticate, optionalAuth, requireUserSession } from '../middlewares/auth.middleware';
+import { loginRateLimiter, passwordResetRateLimiter } from '../middlewares/security.middleware';
 
 const router = Router();
 
@@ -61,8 +62,10 @@ router.post('/register', AuthController.register);
  *     responses:
  *       200:
  *         description: Login successful
+ *       429:
+ *         description: Too many failed attempts, account or IP temporarily locked
  */
-router.post('/login', AuthController.login);
+router.post('/login', loginRateLimiter, AuthController.login);
 
 /**
  * @swagger
@@ -130,6 +133,171 @@ router.get('/me', authenticate, AuthController.me);
  *       200:
  *         description: Password changed successfully
  */
-router.post('/change-password', authenticate, AuthController.changePassword);
+router.post('/change-password', authenticate, requireUserSession, AuthController.changePassword);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link
+ *     description: Always responds with success so registered emails cannot be discovered.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ */
+router.post('/forgot-password', passwordResetRateLimiter, AuthController.forgotPassword);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Reset password using a reset token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/reset-password', passwordResetRateLimiter, AuthController.resetPassword);
+
+/**
+ * @swagger
+ * /api/auth/secure-account:
+ *   post:
+ *     summary: Report a login as not yours
+ *     description: >
+ *       Uses the "this wasn't me" token from a new-device alert. Signs out all sessions, blocks
+ *       login until the password is reset and emails a password reset link.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account secured
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/secure-account', passwordResetRateLimiter, AuthController.secureAccount);
+
+/**
+ * @swagger
+ * /api/auth/expired-password:
+ *   post:
+ *     summary: Replace an expired password
+ *     description: Used when login returns passwordChangeRequired. On success the login continues and returns tokens or an MFA challenge.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               email:
+ *                 type: string
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password changed and login continued
+ *       401:
+ *         description: Invalid credentials
+ *       422:
+ *         description: New password does not meet the password policy
+ */
+router.post('/expired-password', loginRateLimiter, AuthController.expiredPassword);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify email address using a verification token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/verify-email', AuthController.verifyEmail);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Resend the email verification link
+ *     description: Throttled per email address. Always responds with success so registration status is not revealed.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Verification email sent if the account is unverified
+ *       429:
+ *         description: Requested too soon after a previous resend
+ */
+router.post('/resend-verification', AuthController.resendVerification);
 
 export default router;
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { ImpersonationController } from '../controllers/impersonation.controller';
+import { authenticate, requireUserSession } from '../middlewares/auth.middleware';
+import { requireRole } from '../middlewares/rbac.middleware';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/auth/impersonation:
+ *   post:
+ *     summary: Start impersonating a user
+ *     description: >
+ *       Super admin only. Returns a short-lived access token for the user (no refresh token).
+ *       Actions taken with it are audited with the super admin as the real actor; password,
+ *       MFA, session and API key changes are blocked.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 format: uuid
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Impersonation access token
+ *       403:
+ *         description: Not a super admin, or the target is a super admin
+ */
+router.post(
+  '/',
+  authenticate,
+  requireUserSession,
+  requireRole('super-admin'),
+  ImpersonationController.start
+);
+
+/**
+ * @swagger
+ * /api/auth/impersonation/stop:
+ *   post:
+ *     summary: Stop impersonating
+ *     description: Call with the impersonation access token; the token is revoked.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Impersonation ended
+ */
+router.post('/stop', authenticate, ImpersonationController.stop);
+
+export default router;
@@ -1,5 +1,16 @@
 import { Router } from 'express';
 import authRoutes from './auth.routes';
+import mfaRoutes from './mfa.routes';
+import sessionRoutes from './session.routes';
+import apiKeyRoutes from './api-key.routes';
+import knownDeviceRoutes from './known-device.routes';
+import oidcRoutes from './oidc.routes';
+import impersonationRoutes from './impersonation.routes';
+import userRoutes from './user.routes';
+import invitationRoutes from './invitation.routes';
+import roleRoutes from './role.routes';
+import permissionRoutes from './permission.routes';
+import accessGrantRoutes from './access-grant.routes';
 import uploadRoutes from './upload.routes';
 // Import other routes as they are created
 
@@ -24,7 +35,18 @@ router.get('/metrics', (_req, res) => {
 });
 
 // API routes
+router.use('/auth/mfa', mfaRoutes);
+router.use('/auth/sessions', sessionRoutes);
+router.use('/auth/api-keys', apiKeyRoutes);
+router.use('/auth/devices', knownDeviceRoutes);
+router.use('/auth/oidc', oidcRoutes);
+router.use('/auth/impersonation', impersonationRoutes);
 router.use('/auth', authRoutes);
+router.use('/users', userRoutes);
+router.use('/invitations', invitationRoutes);
+router.use('/roles', roleRoutes);
+router.use('/permissions', permissionRoutes);
+router.use('/access-grants', accessGrantRoutes);
 router.use('/uploads', uploadRoutes);
 
 export default router;
@@ -0,0 +1,205 @@
+import { Router } from 'express';
+import { InvitationController } from '../controllers/invitation.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { requirePermission } from '../middlewares/rbac.middleware';
+import { invitationRateLimiter } from '../middlewares/security.middleware';
+import { Resource, Action } from '../types';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/invitations/lookup:
+ *   get:
+ *     summary: Get the details of a pending invitation
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation details (email, name, role, department)
+ *       400:
+ *         description: Invalid or expired invitation
+ */
+router.get('/lookup', invitationRateLimiter, InvitationController.lookup);
+
+/**
+ * @swagger
+ * /api/invitations/accept:
+ *   post:
+ *     summary: Accept an invitation and set a password
+ *     description: Creates the account with the role, department, employee ID and joining date from the invitation.
+ *     tags: [Invitations]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Account created
+ *       400:
+ *         description: Invalid or expired invitation
+ */
+router.post('/accept', invitationRateLimiter, InvitationController.accept);
+
+/**
+ * @swagger
+ * /api/invitations:
+ *   get:
+ *     summary: List invitations
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, expired, accepted, revoked]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated invitations
+ */
+router.get(
+  '/',
+  authenticate,
+  requirePermission(Resource.USER, Action.READ),
+  InvitationController.list
+);
+
+/**
+ * @swagger
+ * /api/invitations:
+ *   post:
+ *     summary: Invite a new employee
+ *     description: Emails a link, valid for 7 days, where the invitee sets their password.
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - roleId
+ *             properties:
+ *               email:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               roleId:
+ *                 type: string
+ *                 format: uuid
+ *               departmentId:
+ *                 type: string
+ *                 format: uuid
+ *               employeeId:
+ *                 type: string
+ *               joiningDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *       403:
+ *         description: The role grants permissions the caller cannot grant
+ *       409:
+ *         description: User, pending invitation or employee ID already exists
+ */
+router.post(
+  '/',
+  authenticate,
+  requirePermission(Resource.USER, Action.CREATE),
+  InvitationController.create
+);
+
+/**
+ * @swagger
+ * /api/invitations/{id}/resend:
+ *   post:
+ *     summary: Resend an invitation with a fresh link
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation resent
+ *       403:
+ *         description: The role grants permissions the caller cannot grant
+ */
+router.post(
+  '/:id/resend',
+  authenticate,
+  requirePermission(Resource.USER, Action.CREATE),
+  InvitationController.resend
+);
+
+/**
+ * @swagger
+ * /api/invitations/{id}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission(Resource.USER, Action.CREATE),
+  InvitationController.revoke
+);
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { KnownDeviceController } from '../controllers/known-device.controller';
+import { authenticate, requireUserSession } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// All device routes require a signed-in user (not an API key)
+router.use(authenticate, requireUserSession);
+
+/**
+ * @swagger
+ * /api/auth/devices:
+ *   get:
+ *     summary: List the devices and networks you have logged in from
+ *     description: Logins from a device or network not in this list trigger a security alert.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Known devices
+ */
+router.get('/', KnownDeviceController.getMyDevices);
+
+/**
+ * @swagger
+ * /api/auth/devices/{id}:
+ *   delete:
+ *     summary: Forget a known device
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Device removed successfully
+ */
+router.delete('/:id', KnownDeviceController.removeMyDevice);
+
+export default router;
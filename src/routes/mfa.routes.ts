@@ -0,0 +1,146 @@
+import { Router } from 'express';
+import { MfaController } from '../controllers/mfa.controller';
+import { authenticate, optionalAuth, requireUserSession } from '../middlewares/auth.middleware';
+import { mfaRateLimiter } from '../middlewares/security.middleware';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/auth/mfa/setup:
+ *   post:
+ *     summary: Start TOTP enrollment
+ *     description: Requires a bearer token, or the mfaToken returned by login when the user's role requires MFA.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: TOTP secret and otpauth URI
+ */
+router.post('/setup', optionalAuth, requireUserSession, MfaController.setup);
+
+/**
+ * @swagger
+ * /api/auth/mfa/confirm:
+ *   post:
+ *     summary: Confirm TOTP enrollment and receive recovery codes
+ *     description: When called with a login mfaToken, also completes the login.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *               mfaToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: MFA enabled successfully
+ */
+router.post('/confirm', optionalAuth, requireUserSession, MfaController.confirm);
+
+/**
+ * @swagger
+ * /api/auth/mfa/verify:
+ *   post:
+ *     summary: Complete login with a TOTP or recovery code
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *               - code
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid MFA code or token
+ *       429:
+ *         description: Too many failed attempts
+ */
+router.post('/verify', mfaRateLimiter, MfaController.verify);
+
+/**
+ * @swagger
+ * /api/auth/mfa/disable:
+ *   post:
+ *     summary: Disable MFA
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: MFA disabled successfully
+ *       403:
+ *         description: MFA is mandatory for the user's role
+ */
+router.post('/disable', authenticate, requireUserSession, MfaController.disable);
+
+/**
+ * @swagger
+ * /api/auth/mfa/recovery-codes:
+ *   post:
+ *     summary: Regenerate MFA recovery codes
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ */
+router.post(
+  '/recovery-codes',
+  authenticate,
+  requireUserSession,
+  MfaController.regenerateRecoveryCodes
+);
+
+export default router;
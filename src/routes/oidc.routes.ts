@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { OidcController } from '../controllers/oidc.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/auth/oidc/login:
+ *   get:
+ *     summary: Start single sign-on
+ *     description: Redirects to the OpenID Connect provider (authorization code flow with PKCE).
+ *     tags: [Auth]
+ *     responses:
+ *       302:
+ *         description: Redirect to the identity provider
+ *       404:
+ *         description: Single sign-on is not configured
+ */
+router.get('/login', OidcController.login);
+
+/**
+ * @swagger
+ * /api/auth/oidc/callback:
+ *   get:
+ *     summary: Single sign-on callback
+ *     description: >
+ *       Validates the ID token, signs in the linked user and redirects to OIDC_POST_LOGIN_REDIRECT
+ *       with the refresh token cookie set. When the user must complete MFA, the redirect instead
+ *       carries mfa (verify or setup) and mfaToken in the URL fragment. Failures redirect with an
+ *       error query parameter (sso_failed, sso_not_linked, sso_forbidden or account_locked).
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to the frontend
+ */
+router.get('/callback', OidcController.callback);
+
+export default router;
@@ -0,0 +1,151 @@
+import { Router } from 'express';
+import { RoleController } from '../controllers/role.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { requireAnyPermission, requirePermission } from '../middlewares/rbac.middleware';
+import { Resource, Action } from '../types';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/permissions:
+ *   get:
+ *     summary: List all permissions
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permissions ordered by resource and action
+ */
+router.get(
+  '/',
+  authenticate,
+  requireAnyPermission([
+    { resource: Resource.ROLE, action: Action.READ },
+    { resource: Resource.ROLE, action: Action.MANAGE },
+  ]),
+  RoleController.listPermissions
+);
+
+/**
+ * @swagger
+ * /api/permissions:
+ *   post:
+ *     summary: Create a permission
+ *     description: The slug is resource:action. The permission has no effect until granted to a role.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - resource
+ *               - action
+ *             properties:
+ *               resource:
+ *                 type: string
+ *               action:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Permission created
+ *       409:
+ *         description: Permission already exists
+ */
+router.post(
+  '/',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.createPermission
+);
+
+/**
+ * @swagger
+ * /api/permissions/explain:
+ *   get:
+ *     summary: Explain whether a user holds a permission
+ *     description: Returns the roles, per-user grants or access grants giving the permission, or what denies it. With ownerId, also whether the permission's scope covers a record owned by that user. API key scopes are not considered.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: resource
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ownerId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Whether the check passes, the reason and the sources
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  '/explain',
+  authenticate,
+  requireAnyPermission([
+    { resource: Resource.ROLE, action: Action.READ },
+    { resource: Resource.ROLE, action: Action.MANAGE },
+  ]),
+  RoleController.explainPermission
+);
+
+/**
+ * @swagger
+ * /api/permissions/matrix:
+ *   get:
+ *     summary: Export the role and permission matrix
+ *     description: One row per permission and one column per role, each cell holding the role's scope for the permission. Exports are audited.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: The matrix as JSON, or as a CSV attachment
+ *         content:
+ *           application/json: {}
+ *           text/csv: {}
+ */
+router.get(
+  '/matrix',
+  authenticate,
+  requireAnyPermission([
+    { resource: Resource.ROLE, action: Action.READ },
+    { resource: Resource.ROLE, action: Action.MANAGE },
+  ]),
+  RoleController.exportAccessMatrix
+);
+
+export default router;
@@ -0,0 +1,339 @@
+import { Router } from 'express';
+import { RoleController } from '../controllers/role.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { requireAnyPermission, requirePermission } from '../middlewares/rbac.middleware';
+import { Resource, Action } from '../types';
+
+const router = Router();
+
+const canReadRoles = requireAnyPermission([
+  { resource: Resource.ROLE, action: Action.READ },
+  { resource: Resource.ROLE, action: Action.MANAGE },
+]);
+
+/**
+ * @swagger
+ * /api/roles:
+ *   get:
+ *     summary: List roles with their permissions and user counts
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles
+ */
+router.get('/', authenticate, canReadRoles, RoleController.list);
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   get:
+ *     summary: Get a role with its permissions
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role details
+ *       404:
+ *         description: Role not found
+ */
+router.get('/:id', authenticate, canReadRoles, RoleController.getById);
+
+/**
+ * @swagger
+ * /api/roles:
+ *   post:
+ *     summary: Create a custom role
+ *     description: Administrators other than super admins can only grant permissions they hold.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *                 description: Derived from the name when omitted
+ *               description:
+ *                 type: string
+ *               mfaRequired:
+ *                 type: boolean
+ *               permissionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               scope:
+ *                 type: string
+ *                 enum: [OWN, DIRECT_REPORTS, DEPARTMENT, DEPARTMENT_TREE, ALL]
+ *                 description: Scope of the granted permissions (default ALL)
+ *     responses:
+ *       201:
+ *         description: Role created
+ *       409:
+ *         description: Name or slug already in use
+ */
+router.post(
+  '/',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.create
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   patch:
+ *     summary: Update a role
+ *     description: The slug cannot be changed. MFA cannot be made optional for a system role.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               mfaRequired:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Role updated
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.update
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     description: System roles and roles still assigned to users or pending invitations cannot be deleted.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       403:
+ *         description: System role
+ *       409:
+ *         description: Role is still in use
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.delete
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}/permissions:
+ *   post:
+ *     summary: Grant permissions to a role
+ *     description: Adds to the role's existing permissions.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissionIds
+ *             properties:
+ *               permissionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               scope:
+ *                 type: string
+ *                 enum: [OWN, DIRECT_REPORTS, DEPARTMENT, DEPARTMENT_TREE, ALL]
+ *                 description: Scope of the granted permissions (default ALL)
+ *     responses:
+ *       200:
+ *         description: Updated role
+ */
+router.post(
+  '/:id/permissions',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.addPermissions
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}/permissions:
+ *   put:
+ *     summary: Replace a role's permissions
+ *     description: System roles can gain permissions but not lose them.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissionIds
+ *             properties:
+ *               permissionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               scope:
+ *                 type: string
+ *                 enum: [OWN, DIRECT_REPORTS, DEPARTMENT, DEPARTMENT_TREE, ALL]
+ *                 description: Scope of the granted permissions (default ALL)
+ *     responses:
+ *       200:
+ *         description: Updated role
+ *       403:
+ *         description: Would remove permissions from a system role
+ */
+router.put(
+  '/:id/permissions',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.setPermissions
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}/permissions/{permissionId}:
+ *   patch:
+ *     summary: Change the scope of a role's permission
+ *     description: >
+ *       OWN covers the user's own records, DIRECT_REPORTS adds users they manage,
+ *       DEPARTMENT their department, DEPARTMENT_TREE their department and its
+ *       sub-departments, and ALL everyone. A system role's scopes cannot be narrowed.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: permissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [OWN, DIRECT_REPORTS, DEPARTMENT, DEPARTMENT_TREE, ALL]
+ *     responses:
+ *       200:
+ *         description: Updated role
+ *       403:
+ *         description: Would narrow a system role's permission
+ */
+router.patch(
+  '/:id/permissions/:permissionId',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.updatePermissionScope
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}/permissions/{permissionId}:
+ *   delete:
+ *     summary: Remove a permission from a custom role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: permissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Permission removed
+ *       403:
+ *         description: System role
+ */
+router.delete(
+  '/:id/permissions/:permissionId',
+  authenticate,
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  RoleController.removePermission
+);
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { SessionController } from '../controllers/session.controller';
+import { authenticate, requireUserSession } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// All session routes require a signed-in user (not an API key)
+router.use(authenticate, requireUserSession);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List the current user's active sessions
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions with device label and current-session marker
+ */
+router.get('/', SessionController.getMySessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/revoke-others:
+ *   post:
+ *     summary: Sign out everywhere else
+ *     description: Revokes every session except the one making the request.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked successfully
+ */
+router.post('/revoke-others', SessionController.revokeOtherSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke one of the current user's sessions
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/:id', SessionController.revokeMySession);
+
+export default router;
@@ -1,11 +1,11 @@
 import { Router } from 'express';
 import { UploadController } from '../controllers/upload.controller';
-import { authenticate } from '../middlewares/auth.middleware';
+import { authenticate, requireVerifiedEmail } from '../middlewares/auth.middleware';
 
 const router = Router();
 
-// All upload routes require authentication
-router.use(authenticate);
+// All upload routes require authentication and a verified email
+router.use(authenticate, requireVerifiedEmail);
 
 /**
  * @swagger
@@ -0,0 +1,645 @@
+import { Router } from 'express';
+import { SessionController } from '../controllers/session.controller';
+import { UserController } from '../controllers/user.controller';
+import { ApiKeyController } from '../controllers/api-key.controller';
+import { UserAccessController } from '../controllers/user-access.controller';
+import { authenticate, requireUserSession } from '../middlewares/auth.middleware';
+import { requireOwnershipOrPermission, requirePermission } from '../middlewares/rbac.middleware';
+import { Resource, Action } from '../types';
+
+const router = Router();
+
+// All user routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/users:
+ *   get:
+ *     summary: List users
+ *     description: Limited to the users within the scope of the caller's user:read permission.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, firstName, lastName, email, employeeId, joiningDate]
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: roleId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: departmentId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated users
+ */
+router.get('/', requirePermission(Resource.USER, Action.READ), UserController.list);
+
+/**
+ * @swagger
+ * /api/users:
+ *   post:
+ *     summary: Create a user
+ *     description: Administrators other than super admins can only assign roles whose permissions they hold.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *               - firstName
+ *               - lastName
+ *               - roleId
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *               roleId:
+ *                 type: string
+ *                 format: uuid
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               emergencyContact:
+ *                 type: string
+ *               departmentId:
+ *                 type: string
+ *                 format: uuid
+ *               managerId:
+ *                 type: string
+ *                 format: uuid
+ *               employeeId:
+ *                 type: string
+ *               joiningDate:
+ *                 type: string
+ *                 format: date
+ *               dateOfBirth:
+ *                 type: string
+ *                 format: date
+ *               bankAccountNumber:
+ *                 type: string
+ *               taxId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: User created
+ *       409:
+ *         description: Email or employee ID already in use
+ */
+router.post('/', requirePermission(Resource.USER, Action.CREATE), UserController.create);
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   patch:
+ *     summary: Update your own profile
+ *     description: Only personal details can be changed; role, department, employment and payroll details are changed by HR.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               emergencyContact:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Profile updated
+ */
+router.patch('/me', UserController.updateProfile);
+
+/**
+ * @swagger
+ * /api/users/{userId}:
+ *   get:
+ *     summary: Get a user
+ *     description: Users can view their own record. Sensitive fields are masked unless the caller is the user or holds user:read_sensitive.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User details
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  '/:userId',
+  requireOwnershipOrPermission(Resource.USER, Action.READ, (req) => req.params.userId),
+  UserController.getById
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}:
+ *   patch:
+ *     summary: Update a user
+ *     description: The caller's user:update scope must cover the user. Optional details can be cleared with null. Administrators cannot change their own role or status.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *               roleId:
+ *                 type: string
+ *                 format: uuid
+ *               isActive:
+ *                 type: boolean
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               emergencyContact:
+ *                 type: string
+ *               departmentId:
+ *                 type: string
+ *                 format: uuid
+ *               managerId:
+ *                 type: string
+ *                 format: uuid
+ *               employeeId:
+ *                 type: string
+ *               joiningDate:
+ *                 type: string
+ *                 format: date
+ *               dateOfBirth:
+ *                 type: string
+ *                 format: date
+ *               bankAccountNumber:
+ *                 type: string
+ *               taxId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User updated
+ *       403:
+ *         description: User outside the caller's scope
+ */
+router.patch('/:userId', requirePermission(Resource.USER, Action.UPDATE), UserController.update);
+
+/**
+ * @swagger
+ * /api/users/{userId}:
+ *   delete:
+ *     summary: Delete a user
+ *     description: Users with leave requests, payrolls or other records cannot be deleted; deactivate them instead.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User deleted
+ *       409:
+ *         description: User has related records
+ */
+router.delete('/:userId', requirePermission(Resource.USER, Action.DELETE), UserController.delete);
+
+/**
+ * @swagger
+ * /api/users/{userId}/sessions:
+ *   get:
+ *     summary: List a user's active sessions
+ *     description: Requires user:manage covering the user. Only super admins can act on super admins.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ */
+router.get(
+  '/:userId/sessions',
+  requireOwnershipOrPermission(Resource.USER, Action.MANAGE, (req) => req.params.userId),
+  SessionController.getUserSessions
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/sessions:
+ *   delete:
+ *     summary: Revoke all of a user's sessions
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: All sessions revoked successfully
+ */
+router.delete(
+  '/:userId/sessions',
+  requireOwnershipOrPermission(Resource.USER, Action.MANAGE, (req) => req.params.userId),
+  SessionController.revokeAllUserSessions
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/sessions/{id}:
+ *   delete:
+ *     summary: Revoke one of a user's sessions
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  '/:userId/sessions/:id',
+  requireOwnershipOrPermission(Resource.USER, Action.MANAGE, (req) => req.params.userId),
+  SessionController.revokeUserSession
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/unlock:
+ *   post:
+ *     summary: Lift a user's login lockout
+ *     description: Clears failed login attempts and any active lockout for the account. Requires user:manage over the account, including the caller's own.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked successfully
+ *       403:
+ *         description: The user is outside the scope of the caller's user:manage
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  '/:userId/unlock',
+  requirePermission(Resource.USER, Action.MANAGE),
+  UserController.unlock
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/api-keys:
+ *   get:
+ *     summary: List a user's API keys
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API keys (without secrets)
+ */
+router.get(
+  '/:userId/api-keys',
+  requireOwnershipOrPermission(Resource.USER, Action.MANAGE, (req) => req.params.userId),
+  ApiKeyController.getUserKeys
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/api-keys:
+ *   post:
+ *     summary: Create an API key for a user or service account
+ *     description: Same body as POST /api/auth/api-keys. The key is returned once. Administrators other than super admins can only request scopes they could grant in the user's scope.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       403:
+ *         description: The user or a requested scope is outside the administrator's permissions
+ */
+router.post(
+  '/:userId/api-keys',
+  requireUserSession,
+  requireOwnershipOrPermission(Resource.USER, Action.MANAGE, (req) => req.params.userId),
+  ApiKeyController.createUserKey
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke a user's API key
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       404:
+ *         description: API key not found
+ */
+router.delete(
+  '/:userId/api-keys/:id',
+  requireOwnershipOrPermission(Resource.USER, Action.MANAGE, (req) => req.params.userId),
+  ApiKeyController.revokeUserKey
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/access:
+ *   get:
+ *     summary: Get a user's roles, permission overrides and effective permissions
+ *     description: Each effective permission lists its sources (roles and per-user grants) with their scopes. Users can view their own.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Roles, overrides and effective permissions
+ */
+router.get(
+  '/:userId/access',
+  requireOwnershipOrPermission(Resource.ROLE, Action.READ, (req) => req.params.userId),
+  UserAccessController.get
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/roles:
+ *   post:
+ *     summary: Give a user an additional role
+ *     description: The user keeps their primary role. Administrators other than super admins can only assign roles whose permissions they hold.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - roleId
+ *             properties:
+ *               roleId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Updated access
+ *       409:
+ *         description: User already has the role
+ */
+router.post(
+  '/:userId/roles',
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  UserAccessController.assignRole
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/roles/{roleId}:
+ *   delete:
+ *     summary: Remove one of a user's additional roles
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated access
+ */
+router.delete(
+  '/:userId/roles/:roleId',
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  UserAccessController.removeRole
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/permissions/{permissionId}:
+ *   put:
+ *     summary: Grant or deny a permission for a user
+ *     description: A deny wins over every role granting the permission. Grants follow the same rules as role grants.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: permissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - effect
+ *             properties:
+ *               effect:
+ *                 type: string
+ *                 enum: [GRANT, DENY]
+ *               scope:
+ *                 type: string
+ *                 enum: [OWN, DIRECT_REPORTS, DEPARTMENT, DEPARTMENT_TREE, ALL]
+ *                 description: Scope of a grant (default ALL)
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated access
+ */
+router.put(
+  '/:userId/permissions/:permissionId',
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  UserAccessController.setPermissionOverride
+);
+
+/**
+ * @swagger
+ * /api/users/{userId}/permissions/{permissionId}:
+ *   delete:
+ *     summary: Remove a user's grant or deny for a permission
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: permissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated access
+ *       404:
+ *         description: Override not found
+ */
+router.delete(
+  '/:userId/permissions/:permissionId',
+  requirePermission(Resource.ROLE, Action.MANAGE),
+  UserAccessController.removePermissionOverride
+);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/auth.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: Public keys for verifying access tokens
+ *     description: JSON Web Key Set of the RS256 keys, identified by kid. Empty when only HS256 is used.
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ */
+router.get('/jwks.json', AuthController.jwks);
+
+export default router;
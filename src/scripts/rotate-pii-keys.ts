@@ -0,0 +1,76 @@
+import { PrismaClient } from '@prisma/client';
+import { isPiiEncryptionEnabled, getActivePiiKey } from '../config/pii-keys';
+import { rotateUserPii } from '../config/pii-encryption';
+
+// Bring every user's PII columns up to date with the active key:
+// - plaintext values (written before encryption was enabled) are encrypted
+// - values whose data key is wrapped with another key are re-wrapped
+// - the taxId blind index is rebuilt where it differs (e.g. a new index key)
+// Once a run completes, keys other than PII_ENCRYPTION_KEY_ID can be removed.
+//
+// Usage: npm run pii:rotate [-- --dry-run]
+
+// Reads and writes raw column values, bypassing the encryption extension
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  if (!isPiiEncryptionEnabled()) {
+    throw new Error('PII encryption is not configured (PII_ENCRYPTION_KEYS)');
+  }
+
+  const dryRun = process.argv.includes('--dry-run');
+  const { kid } = getActivePiiKey();
+  console.log(`Rotating PII to key ${kid}${dryRun ? ' (dry run)' : ''}...`);
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const users = await prisma.user.findMany({
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        bankAccountNumber: true,
+        taxId: true,
+        emergencyContact: true,
+        address: true,
+        taxIdIndex: true,
+      },
+    });
+
+    if (users.length === 0) {
+      break;
+    }
+    cursor = users[users.length - 1].id;
+    scanned += users.length;
+
+    for (const user of users) {
+      const data = rotateUserPii(user, kid);
+
+      if (Object.keys(data).length === 0) {
+        continue;
+      }
+
+      updated++;
+      if (!dryRun) {
+        await prisma.user.update({ where: { id: user.id }, data });
+      }
+    }
+  }
+
+  console.log(`✅ ${dryRun ? 'Would update' : 'Updated'} ${updated} of ${scanned} users`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ PII key rotation failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
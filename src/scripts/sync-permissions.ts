@@ -0,0 +1,29 @@
+import { disconnectDatabase } from '../config/database';
+import { disconnectRedis } from '../config/redis';
+import { PermissionCatalogueService } from '../services/permission-catalogue.service';
+
+// Reconcile the permission catalogue and default role permissions (see
+// src/config/permissions.ts) with the database, printing the diff.
+//
+// Usage: npm run permissions:sync [-- --dry-run]
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  const diff = await PermissionCatalogueService.sync({ dryRun });
+
+  console.log(PermissionCatalogueService.formatDiff(diff));
+  if (dryRun) {
+    console.log('Dry run: no changes made');
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Permission sync failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDatabase();
+    await disconnectRedis();
+  });
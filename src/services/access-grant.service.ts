@@ -0,0 +1,325 @@
+import { NotificationType, PermissionScope, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { RoleActor, RoleService } from './role.service';
+import { UserService } from './user.service';
+import notificationService from './notification.service';
+import { Action } from '../types';
+import { AppError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { getPaginationParams, getSkipTake } from '../utils/pagination';
+
+// Elevations are meant to be short; longer needs belong in a role
+const MAX_GRANT_DURATION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Users with this role are told when an elevation expires
+const HR_ROLE_SLUG = 'hr-manager';
+
+const accessGrantInclude = {
+  user: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  permission: {
+    select: {
+      id: true,
+      slug: true,
+    },
+  },
+};
+
+export interface CreateAccessGrantData {
+  userId: string;
+  permissionId: string;
+  scope?: PermissionScope;
+  reason: string;
+  startsAt?: Date;
+  expiresAt: Date;
+  approverId?: string;
+}
+
+export class AccessGrantService {
+  // Grant a user the actor may manage a permission for a limited time. A
+  // grant naming an approver applies only once they approve it.
+  static async createGrant(data: CreateAccessGrantData, actor: RoleActor) {
+    const startsAt = data.startsAt || new Date();
+
+    if (data.expiresAt <= startsAt || data.expiresAt <= new Date()) {
+      throw new AppError('Expiry must be in the future and after the start time', 400);
+    }
+
+    if (data.expiresAt.getTime() - startsAt.getTime() > MAX_GRANT_DURATION_MS) {
+      throw new AppError('Access grants cannot last longer than 90 days', 400);
+    }
+
+    const user = await UserService.getManageableUser(data.userId, Action.UPDATE, actor);
+    const permission = await prisma.permission.findUnique({ where: { id: data.permissionId } });
+
+    if (!permission) {
+      throw new NotFoundError('Permission not found');
+    }
+
+    if (user.role.slug === 'super-admin') {
+      throw new AppError('Super admins already hold every permission', 400);
+    }
+
+    // The approver vouches for access requested by someone else, for someone else
+    if (data.approverId) {
+      if (data.approverId === data.userId) {
+        throw new AppError('The holder cannot approve their own access grant', 400);
+      }
+
+      if (data.approverId === actor.id) {
+        throw new AppError('You cannot approve an access grant you create', 400);
+      }
+
+      const approver = await prisma.user.findUnique({ where: { id: data.approverId } });
+      if (!approver || !approver.isActive) {
+        throw new NotFoundError('Approver not found');
+      }
+    }
+
+    const scope = data.scope || PermissionScope.ALL;
+    await RoleService.assertGrantable([data.permissionId], scope, actor);
+
+    const grant = await prisma.accessGrant.create({
+      data: {
+        userId: data.userId,
+        permissionId: data.permissionId,
+        scope,
+        reason: data.reason,
+        startsAt,
+        expiresAt: data.expiresAt,
+        grantedById: actor.id,
+        approverId: data.approverId,
+      },
+      include: accessGrantInclude,
+    });
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ACCESS_GRANT_CREATED',
+      entityType: 'access_grant',
+      entityId: grant.id,
+      changes: {
+        holderId: data.userId,
+        permission: permission.slug,
+        scope,
+        reason: data.reason,
+        startsAt,
+        expiresAt: data.expiresAt,
+        approverId: data.approverId,
+      },
+      ipAddress: actor.ipAddress,
+    });
+
+    if (data.approverId) {
+      try {
+        await notificationService.createNotification(
+          data.approverId,
+          NotificationType.SYSTEM,
+          'Access grant awaiting approval',
+          `${user.firstName} ${user.lastName} has been granted temporary ${permission.slug} access, pending your approval.`,
+          { grantId: grant.id, permission: permission.slug, holderId: data.userId }
+        );
+      } catch (error) {
+        logger.error(`Failed to notify the approver of access grant ${grant.id}:`, error);
+      }
+    }
+
+    logger.info(`Access grant ${grant.id} created for user ${data.userId}: ${permission.slug}`);
+
+    return grant;
+  }
+
+  // Approve a grant naming the actor as approver, making it apply. The
+  // approver must be able to grant the permission themselves.
+  static async approveGrant(grantId: string, actor: RoleActor) {
+    const grant = await prisma.accessGrant.findUnique({ where: { id: grantId } });
+
+    if (!grant) {
+      throw new NotFoundError('Access grant not found');
+    }
+
+    if (grant.approverId !== actor.id) {
+      throw new ForbiddenError('Only the named approver can approve this access grant');
+    }
+
+    await RoleService.assertGrantable([grant.permissionId], grant.scope, actor);
+
+    const result = await prisma.accessGrant.updateMany({
+      where: { id: grantId, approvedAt: null, revokedAt: null, expiredAt: null },
+      data: { approvedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new AppError('Access grant is not awaiting approval', 400);
+    }
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ACCESS_GRANT_APPROVED',
+      entityType: 'access_grant',
+      entityId: grantId,
+      changes: { holderId: grant.userId },
+      ipAddress: actor.ipAddress,
+    });
+
+    logger.info(`Access grant ${grantId} approved by ${actor.id}`);
+
+    return prisma.accessGrant.findUniqueOrThrow({
+      where: { id: grantId },
+      include: accessGrantInclude,
+    });
+  }
+
+  // List grants, newest first, optionally by holder and status
+  static async listGrants(query: any) {
+    const { page, limit } = getPaginationParams(query);
+    const { skip, take } = getSkipTake(page, limit);
+
+    const where: Prisma.AccessGrantWhereInput = {};
+    const now = new Date();
+
+    if (query.userId) {
+      where.userId = query.userId;
+    }
+
+    // Grants awaiting approval are neither active nor scheduled
+    const approved = { OR: [{ approverId: null }, { approvedAt: { not: null } }] };
+
+    if (query.status === 'active') {
+      Object.assign(where, {
+        revokedAt: null,
+        startsAt: { lte: now },
+        expiresAt: { gt: now },
+        ...approved,
+      });
+    } else if (query.status === 'scheduled') {
+      Object.assign(where, { revokedAt: null, startsAt: { gt: now }, ...approved });
+    } else if (query.status === 'pending_approval') {
+      Object.assign(where, {
+        revokedAt: null,
+        expiresAt: { gt: now },
+        approverId: { not: null },
+        approvedAt: null,
+      });
+    } else if (query.status === 'expired') {
+      Object.assign(where, { revokedAt: null, expiresAt: { lte: now } });
+    } else if (query.status === 'revoked') {
+      where.revokedAt = { not: null };
+    }
+
+    const [grants, total] = await Promise.all([
+      prisma.accessGrant.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        include: accessGrantInclude,
+      }),
+      prisma.accessGrant.count({ where }),
+    ]);
+
+    return { grants, total, page, limit };
+  }
+
+  // End a grant before its expiry
+  static async revokeGrant(grantId: string, actor: RoleActor) {
+    const result = await prisma.accessGrant.updateMany({
+      where: { id: grantId, revokedAt: null, expiredAt: null },
+      data: { revokedAt: new Date(), revokedById: actor.id },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Active access grant not found');
+    }
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ACCESS_GRANT_REVOKED',
+      entityType: 'access_grant',
+      entityId: grantId,
+      ipAddress: actor.ipAddress,
+    });
+
+    logger.info(`Access grant ${grantId} revoked by ${actor.id}`);
+  }
+
+  // Mark grants past their expiry as expired and tell the holder and HR.
+  // Run by the scheduled job; returns the number of grants expired.
+  static async expireGrants(): Promise<number> {
+    const now = new Date();
+    const grants = await prisma.accessGrant.findMany({
+      where: { revokedAt: null, expiredAt: null, expiresAt: { lte: now } },
+      include: accessGrantInclude,
+    });
+
+    if (grants.length === 0) {
+      return 0;
+    }
+
+    const hrUsers = await prisma.user.findMany({
+      where: { isActive: true, role: { slug: HR_ROLE_SLUG } },
+      select: { id: true },
+    });
+
+    let expired = 0;
+    for (const grant of grants) {
+      // Claim the grant so overlapping runs do not notify twice
+      const claimed = await prisma.accessGrant.updateMany({
+        where: { id: grant.id, expiredAt: null },
+        data: { expiredAt: now },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+      expired++;
+
+      await AuditService.log({
+        action: 'ACCESS_GRANT_EXPIRED',
+        entityType: 'access_grant',
+        entityId: grant.id,
+        changes: {
+          holderId: grant.userId,
+          permission: grant.permission.slug,
+          expiresAt: grant.expiresAt,
+        },
+      });
+
+      const holderName = `${grant.user.firstName} ${grant.user.lastName}`;
+      const data = { grantId: grant.id, permission: grant.permission.slug };
+
+      try {
+        await notificationService.createNotification(
+          grant.userId,
+          NotificationType.SYSTEM,
+          'Temporary access expired',
+          `Your temporary ${grant.permission.slug} access has expired.`,
+          data
+        );
+
+        for (const hrUser of hrUsers) {
+          await notificationService.createNotification(
+            hrUser.id,
+            NotificationType.SYSTEM,
+            'Temporary access expired',
+            `${holderName}'s temporary ${grant.permission.slug} access has expired.`,
+            { ...data, holderId: grant.userId }
+          );
+        }
+      } catch (error) {
+        logger.error(`Failed to send expiry notifications for access grant ${grant.id}:`, error);
+      }
+    }
+
+    logger.info(`Expired ${expired} access grants`);
+
+    return expired;
+  }
+}
@@ -0,0 +1,193 @@
+import { PermissionEffect, PermissionScope } from '@prisma/client';
+import prisma from '../config/database';
+import { PermissionService, PermissionSource, userPermissionsInclude } from './permission.service';
+import { AuditService } from './audit.service';
+import { RoleActor } from './role.service';
+import { Resource, Action } from '../types';
+import { NotFoundError } from '../utils/errors';
+import { toCsv } from '../utils/csv';
+
+// Why a permission check for a user passes or fails
+export interface PermissionExplanation {
+  allowed: boolean;
+  reason: string;
+  user: {
+    id: string;
+    email: string;
+    isActive: boolean;
+    role: string;
+    additionalRoles: string[];
+  };
+  permission: string;
+  // Every role, grant and elevation giving the user the permission
+  sources: PermissionSource[];
+  deniedBy?: { reason: string | null; createdById: string | null };
+  owner?: { id: string; coveredBy: PermissionScope | null };
+}
+
+// Role x permission matrix; each cell is the role's scope, or null when the
+// role lacks the permission
+export interface AccessMatrix {
+  generatedAt: Date;
+  roles: Array<{ id: string; slug: string; name: string; isSystem: boolean; userCount: number }>;
+  permissions: Array<{
+    slug: string;
+    resource: string;
+    action: string;
+    roles: Record<string, PermissionScope | null>;
+  }>;
+}
+
+export class AccessReviewService {
+  // Explain whether a user may perform an action on a resource (optionally on
+  // a record owned by ownerId), as requirePermission would decide it. API key
+  // scopes are not considered.
+  static async explainPermission(
+    userId: string,
+    resource: Resource,
+    action: Action,
+    ownerId?: string
+  ): Promise<PermissionExplanation> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: userPermissionsInclude,
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const slug = `${resource}:${action}`;
+    const explanation: PermissionExplanation = {
+      allowed: false,
+      reason: '',
+      user: {
+        id: user.id,
+        email: user.email,
+        isActive: user.isActive,
+        role: user.role.slug,
+        additionalRoles: user.additionalRoles.map((ur) => ur.role.slug),
+      },
+      permission: slug,
+      sources: [],
+    };
+
+    if (user.role.slug === 'super-admin') {
+      explanation.allowed = true;
+      explanation.reason = 'Super admins hold every permission';
+    } else {
+      const permissions = await PermissionService.resolveEffectivePermissions(user);
+      const effective = permissions.find((p) => p.resource === resource && p.action === action);
+      const deny = user.permissionOverrides.find(
+        (o) => o.effect === PermissionEffect.DENY && o.permission.slug === slug
+      );
+
+      if (deny) {
+        explanation.reason = 'A per-user deny removes this permission whatever grants it';
+        explanation.deniedBy = { reason: deny.reason, createdById: deny.createdById };
+      } else if (!effective) {
+        explanation.reason =
+          'No role, per-user grant or current access grant gives this permission';
+      } else {
+        explanation.sources = effective.sources;
+        explanation.allowed = true;
+        explanation.reason = 'Held through the listed sources';
+      }
+    }
+
+    if (explanation.allowed && ownerId) {
+      const scopes =
+        user.role.slug === 'super-admin'
+          ? [PermissionScope.ALL]
+          : explanation.sources.map((source) => source.scope);
+      const coveredBy = await PermissionService.getCoveringScope(
+        { id: user.id, departmentId: user.departmentId },
+        scopes,
+        ownerId
+      );
+
+      explanation.owner = { id: ownerId, coveredBy };
+      if (!coveredBy) {
+        explanation.allowed = false;
+        explanation.reason = `Held only in scope ${[...new Set(scopes)].join(', ')}, which does not cover the record owner`;
+      }
+    }
+
+    // Inactive users cannot sign in, so their permissions never apply
+    if (explanation.allowed && !user.isActive) {
+      explanation.allowed = false;
+      explanation.reason = 'The user is inactive';
+    }
+
+    return explanation;
+  }
+
+  // Every role against every permission in the catalogue
+  static async getAccessMatrix(): Promise<AccessMatrix> {
+    const [roles, permissions] = await Promise.all([
+      prisma.role.findMany({
+        include: {
+          permissions: true,
+          _count: { select: { users: true } },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      PermissionService.getAllPermissions(),
+    ]);
+
+    return {
+      generatedAt: new Date(),
+      roles: roles.map((role) => ({
+        id: role.id,
+        slug: role.slug,
+        name: role.name,
+        isSystem: role.isSystem,
+        userCount: role._count.users,
+      })),
+      permissions: permissions.map((permission) => ({
+        slug: permission.slug,
+        resource: permission.resource,
+        action: permission.action,
+        roles: Object.fromEntries(
+          roles.map((role) => {
+            // Super admin bypasses the catalogue, whatever is assigned to it
+            const assigned = role.permissions.find((rp) => rp.permissionId === permission.id);
+            const scope = role.slug === 'super-admin' ? PermissionScope.ALL : assigned?.scope;
+            return [role.slug, scope || null];
+          })
+        ),
+      })),
+    };
+  }
+
+  // Build the matrix for an access review, recording who exported it
+  static async exportAccessMatrix(format: 'json' | 'csv', actor: RoleActor) {
+    const matrix = await this.getAccessMatrix();
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ACCESS_MATRIX_EXPORTED',
+      entityType: 'user',
+      entityId: actor.id,
+      changes: { format },
+      ipAddress: actor.ipAddress,
+    });
+
+    return matrix;
+  }
+
+  // The matrix as CSV: one row per permission, one column per role
+  static accessMatrixToCsv(matrix: AccessMatrix): string {
+    const roleSlugs = matrix.roles.map((role) => role.slug);
+
+    return toCsv([
+      ['resource', 'action', 'permission', ...roleSlugs],
+      ...matrix.permissions.map((permission) => [
+        permission.resource,
+        permission.action,
+        permission.slug,
+        ...roleSlugs.map((slug) => permission.roles[slug] || ''),
+      ]),
+    ]);
+  }
+}
@@ -0,0 +1,218 @@
+import { PermissionScope } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { AuthService } from './auth.service';
+import { PERMISSION_SCOPE_ORDER, PermissionService } from './permission.service';
+import { RoleActor, RoleService } from './role.service';
+import { UserService } from './user.service';
+import { Action } from '../types';
+import { AppError, ForbiddenError, NotFoundError, UnauthorizedError } from '../utils/errors';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+
+// Raw keys look like hrk_<40 hex chars>, so they are recognizable in headers and secret scanners
+export const API_KEY_PREFIX = 'hrk_';
+
+// Number of key characters (after the prefix) kept for display
+const DISPLAY_PREFIX_LENGTH = 8;
+
+// Last-used tracking is written at most this often per key
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields safe to return; the hash never leaves the service
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdById: true,
+  createdAt: true,
+};
+
+export class ApiKeyService {
+  // Create a key for a user. Scopes must be permissions the user holds, in a
+  // scope the creator could grant. Returns the raw key, which is shown once and
+  // cannot be recovered.
+  static async createKey(
+    userId: string,
+    data: { name: string; scopes: string[]; expiresInDays: number },
+    actor: RoleActor
+  ) {
+    // Creating a key for someone else follows the rules for managing them
+    if (userId !== actor.id) {
+      await UserService.getManageableUser(userId, Action.MANAGE, actor);
+    }
+
+    const user = await PermissionService.loadUserWithPermissions(userId);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const requested = [...new Set(data.scopes)];
+    const permissions = await prisma.permission.findMany({
+      where: { slug: { in: requested } },
+    });
+
+    if (permissions.length !== requested.length) {
+      throw new AppError('One or more scopes do not exist', 400);
+    }
+
+    // A key acts with the user's broadest scope of each permission; super
+    // admin holds every permission in every scope
+    const byScope = new Map<PermissionScope, string[]>();
+    const missing: string[] = [];
+    for (const permission of permissions) {
+      const held =
+        user.role.slug === 'super-admin'
+          ? [PermissionScope.ALL]
+          : (user.permissions
+              .find((p) => p.id === permission.id)
+              ?.sources.map((source) => source.scope) ?? []);
+      const scope = [...PERMISSION_SCOPE_ORDER].reverse().find((s) => held.includes(s));
+
+      if (!scope) {
+        missing.push(permission.slug);
+        continue;
+      }
+
+      byScope.set(scope, [...(byScope.get(scope) ?? []), permission.id]);
+    }
+
+    if (missing.length > 0) {
+      throw new ForbiddenError(`User does not have the scopes: ${missing.join(', ')}`);
+    }
+
+    for (const [scope, permissionIds] of byScope) {
+      await RoleService.assertGrantable(permissionIds, scope, actor);
+    }
+
+    const secret = generateSecureToken(20);
+    const key = `${API_KEY_PREFIX}${secret}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        name: data.name,
+        prefix: `${API_KEY_PREFIX}${secret.slice(0, DISPLAY_PREFIX_LENGTH)}`,
+        keyHash: hashToken(key),
+        scopes: requested,
+        expiresAt: new Date(Date.now() + data.expiresInDays * DAY_MS),
+        createdById: actor.id,
+      },
+      select: apiKeySelect,
+    });
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'API_KEY_CREATED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { apiKeyId: apiKey.id, name: data.name, scopes: requested },
+      ipAddress: actor.ipAddress,
+    });
+
+    logger.info(`API key ${apiKey.id} created for user ${userId}`);
+
+    return { apiKey, key };
+  }
+
+  // List a user's keys, newest first
+  static async listKeys(userId: string) {
+    return prisma.apiKey.findMany({
+      where: { userId },
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Revoke one of a user's keys
+  static async revokeKey(
+    userId: string,
+    keyId: string,
+    revokedById: string = userId,
+    ipAddress?: string
+  ) {
+    const result = await prisma.apiKey.updateMany({
+      where: {
+        id: keyId,
+        userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('API key not found');
+    }
+
+    await AuditService.log({
+      userId: revokedById,
+      action: 'API_KEY_REVOKED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { apiKeyId: keyId },
+      ipAddress,
+    });
+
+    logger.info(`API key ${keyId} revoked for user ${userId}`);
+  }
+
+  // Revoke every active key of a user, e.g. when their credentials change or
+  // the account may be compromised
+  static async revokeAllKeys(userId: string) {
+    const result = await prisma.apiKey.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      logger.info(`Revoked ${result.count} API keys for user ${userId}`);
+    }
+
+    return result.count;
+  }
+
+  // Resolve the user behind a raw API key and record its use
+  static async authenticate(key: string, ipAddress?: string) {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+    });
+
+    if (!apiKey || apiKey.revokedAt || apiKey.expiresAt <= new Date()) {
+      throw new UnauthorizedError('Invalid or expired API key');
+    }
+
+    const user = await AuthService.getUserWithPermissions(apiKey.userId);
+
+    if (!user.isActive) {
+      throw new UnauthorizedError('Account is deactivated');
+    }
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: {
+          lastUsedAt: new Date(now),
+          lastUsedIp: ipAddress,
+        },
+      });
+    }
+
+    return { user, apiKeyId: apiKey.id, scopes: apiKey.scopes as string[] };
+  }
+}
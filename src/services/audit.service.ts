@@ -1,9 +1,13 @@
 import prisma from '../config/database';
 import logger from '../config/logger';
+import { getRequestContext } from '../utils/request-context';
 
 export class AuditService {
+  // While impersonating, userId is the impersonated user and the real actor is
+  // taken from the request context unless given explicitly
   static async log(data: {
     userId?: string;
+    impersonatorId?: string;
     action: string;
     entityType: string;
     entityId: string;
@@ -15,6 +19,7 @@ export class AuditService {
       const auditLog = await prisma.auditLog.create({
         data: {
           userId: data.userId,
+          impersonatorId: data.impersonatorId ?? getRequestContext()?.impersonatorId,
           action: data.action,
           entityType: data.entityType,
           entityId: data.entityId,
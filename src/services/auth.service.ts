@@ -1,33 +1,183 @@
 import jwt from 'jsonwebtoken';
 import argon2 from 'argon2';
+import { v4 as uuidv4 } from 'uuid';
 import prisma from '../config/database';
 import env from '../config/env';
 import logger from '../config/logger';
-import { JWTPayload, TokenPair } from '../types';
-import { UnauthorizedError, ConflictError, NotFoundError } from '../utils/errors';
+import redis from '../config/redis';
+import { getSigningKey, getVerificationKey } from '../config/jwt-keys';
+import {
+  EmailVerificationPolicy,
+  JWTPayload,
+  MfaTokenPayload,
+  MfaTokenPurpose,
+  TokenPair,
+} from '../types';
+import {
+  AppError,
+  UnauthorizedError,
+  ConflictError,
+  NotFoundError,
+  ForbiddenError,
+  TooManyRequestsError,
+} from '../utils/errors';
+import { NotificationType, User, UserTokenType } from '@prisma/client';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { ApiKeyService } from './api-key.service';
+import { SettingService } from './setting.service';
+import { MfaService } from './mfa.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { LoginLockoutService } from './login-lockout.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PermissionService, userPermissionsInclude } from './permission.service';
+import { SessionService } from './session.service';
+import { KnownDeviceService } from './known-device.service';
+import { isMfaRequiredByRoles, stripUserSecrets } from '../utils/user';
+import { hashToken, safeCompare } from '../utils/crypto';
+import { parseDuration } from '../utils/duration';
+import notificationService from './notification.service';
+import {
+  queueEmailVerificationEmail,
+  queuePasswordResetEmail,
+  queueSecurityAlertEmail,
+  queueWelcomeEmail,
+} from '../queues/email.queue';
+
+// Password reset links expire after 1 hour (matches the email template)
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Email verification links expire after 24 hours (matches the email template)
+const EMAIL_VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Minimum delay between verification email resends for the same address
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+// Shown when a user reported a login as not theirs and has not reset the password yet
+const PASSWORD_RESET_REQUIRED_MESSAGE =
+  'A password reset is required, please use the link sent to your email';
+
+// Refresh tokens issued before token IDs were embedded are stored as argon2 hashes
+const LEGACY_REFRESH_TOKEN_HASH_PREFIX = '$argon2';
 
 export class AuthService {
-  // Generate JWT access token
-  static generateAccessToken(payload: JWTPayload): string {
-    return jwt.sign(payload, env.JWT_ACCESS_SECRET, {
-      expiresIn: env.ACCESS_TOKEN_EXPIRES_IN,
-    } as jwt.SignOptions);
+  // Generate JWT access token (RS256 with the active key's kid, or HS256)
+  static generateAccessToken(
+    payload: JWTPayload,
+    expiresIn: string = env.ACCESS_TOKEN_EXPIRES_IN
+  ): string {
+    if (env.JWT_ACCESS_ALGORITHM === 'RS256') {
+      const { kid, privateKey } = getSigningKey();
+      return jwt.sign(payload, privateKey, {
+        algorithm: 'RS256',
+        keyid: kid,
+        expiresIn,
+      } as jwt.SignOptions);
+    }
+
+    return jwt.sign(payload, env.JWT_ACCESS_SECRET, { expiresIn } as jwt.SignOptions);
   }
 
   // Generate JWT refresh token
-  static generateRefreshToken(payload: JWTPayload): string {
+  static generateRefreshToken(payload: JWTPayload, tokenId: string): string {
     return jwt.sign(payload, env.JWT_REFRESH_SECRET, {
       expiresIn: env.REFRESH_TOKEN_EXPIRES_IN,
+      jwtid: tokenId,
     } as jwt.SignOptions);
   }
 
   // Verify access token
   static verifyAccessToken(token: string): JWTPayload {
+    let payload: JWTPayload | MfaTokenPayload;
     try {
-      return jwt.verify(token, env.JWT_ACCESS_SECRET) as JWTPayload;
+      // Pick the key from the header, pinning the algorithm to the key type
+      const header = jwt.decode(token, { complete: true })?.header;
+      const acceptHs256 = env.JWT_ACCESS_ALGORITHM === 'HS256' || env.JWT_ACCEPT_HS256;
+
+      if (header?.alg === 'RS256') {
+        const publicKey = getVerificationKey(header.kid);
+        if (!publicKey) {
+          throw new Error('Unknown signing key');
+        }
+        payload = jwt.verify(token, publicKey, { algorithms: ['RS256'] }) as JWTPayload;
+      } else if (header?.alg === 'HS256' && acceptHs256) {
+        payload = jwt.verify(token, env.JWT_ACCESS_SECRET, { algorithms: ['HS256'] }) as
+          JWTPayload | MfaTokenPayload;
+      } else {
+        throw new Error('Unsupported signing algorithm');
+      }
     } catch (error) {
       throw new UnauthorizedError('Invalid or expired access token');
     }
+
+    // MFA challenge tokens share the signing secret but must not grant access
+    if ('purpose' in payload) {
+      throw new UnauthorizedError('Invalid or expired access token');
+    }
+
+    return payload;
+  }
+
+  // Generate short-lived MFA challenge token
+  static generateMfaToken(userId: string, purpose: MfaTokenPurpose): string {
+    const payload: MfaTokenPayload = { userId, purpose };
+    return jwt.sign(payload, env.JWT_ACCESS_SECRET, {
+      expiresIn: env.MFA_CHALLENGE_EXPIRES_IN,
+    } as jwt.SignOptions);
+  }
+
+  // Resolve the user behind an access token, rejecting tokens that were revoked,
+  // belong to a deactivated user or predate the last password change
+  static async authenticateAccessToken(token: string) {
+    const payload = this.verifyAccessToken(token);
+
+    if (await TokenRevocationService.isAccessTokenRevoked(payload)) {
+      throw new UnauthorizedError('Access token has been revoked');
+    }
+
+    const user = await this.getUserWithPermissions(payload.userId);
+
+    if (!user.isActive) {
+      throw new UnauthorizedError('Account is deactivated');
+    }
+
+    // iat has second precision, so compare in whole seconds
+    if (
+      user.passwordChangedAt &&
+      (payload.iat ?? 0) < Math.floor(user.passwordChangedAt.getTime() / 1000)
+    ) {
+      throw new UnauthorizedError('Password has been changed, please log in again');
+    }
+
+    // Impersonation ends as soon as the impersonator loses super admin access
+    if (payload.impersonatorId) {
+      const impersonator = await prisma.user.findUnique({
+        where: { id: payload.impersonatorId },
+        include: { role: true },
+      });
+
+      if (!impersonator || !impersonator.isActive || impersonator.role.slug !== 'super-admin') {
+        throw new UnauthorizedError('Impersonation is no longer allowed');
+      }
+    }
+
+    return { user, payload };
+  }
+
+  // Verify MFA challenge token for the expected purpose
+  static verifyMfaToken(token: string, purpose: MfaTokenPurpose): MfaTokenPayload {
+    let payload: MfaTokenPayload;
+    try {
+      payload = jwt.verify(token, env.JWT_ACCESS_SECRET) as MfaTokenPayload;
+    } catch (error) {
+      throw new UnauthorizedError('Invalid or expired MFA token');
+    }
+
+    if (payload.purpose !== purpose) {
+      throw new UnauthorizedError('Invalid or expired MFA token');
+    }
+
+    return payload;
   }
 
   // Verify refresh token
@@ -60,25 +210,31 @@ export class AuthService {
     email: string,
     roleId: string,
     userAgent?: string,
-    ipAddress?: string
+    ipAddress?: string,
+    sessionId: string = uuidv4()
   ): Promise<TokenPair> {
-    const payload: JWTPayload = { userId, email, roleId };
+    // The session ID identifies the refresh token family and is carried by both
+    // tokens. A new family is started unless an existing session is continued.
+    const tokenVersion = await TokenRevocationService.getTokenVersion(userId);
+    const payload: JWTPayload = { userId, email, roleId, sessionId, tokenVersion };
+
+    // The refresh token also carries the ID of its stored record (jti), so it
+    // can be looked up directly instead of hash-compared against every row
+    const refreshTokenId = uuidv4();
 
     const accessToken = this.generateAccessToken(payload);
-    const refreshToken = this.generateRefreshToken(payload);
+    const refreshToken = this.generateRefreshToken(payload, refreshTokenId);
 
     // Calculate expiration time
-    const expiresAt = new Date();
-    const expiryDays = parseInt(env.REFRESH_TOKEN_EXPIRES_IN.replace('d', ''), 10);
-    expiresAt.setDate(expiresAt.getDate() + expiryDays);
-
-    // Hash refresh token before storing
-    const hashedRefreshToken = await this.hashPassword(refreshToken);
+    const expiresAt = new Date(Date.now() + parseDuration(env.REFRESH_TOKEN_EXPIRES_IN));
 
-    // Store refresh token in database
+    // Store only a SHA-256 digest: the token is a signed random-ID JWT, so a
+    // slow password hash would add cost without adding protection
     await prisma.refreshToken.create({
       data: {
-        token: hashedRefreshToken,
+        id: refreshTokenId,
+        token: hashToken(refreshToken),
+        familyId: sessionId,
         userId,
         expiresAt,
         userAgent,
@@ -97,6 +253,14 @@ export class AuthService {
     lastName: string;
     phone?: string;
   }) {
+    // Internal deployments onboard employees through invitations only
+    if (!(await this.isOpenRegistrationEnabled())) {
+      throw new ForbiddenError('Registration is by invitation only');
+    }
+
+    // Enforce password policy
+    await PasswordPolicyService.validate(data.password);
+
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email: data.email },
@@ -145,9 +309,93 @@ export class AuthService {
       },
     });
 
+    await PasswordPolicyService.recordHistory(user.id, hashedPassword);
+
+    await this.sendVerificationEmail(user.id, user.email, user.firstName);
+
     return user;
   }
 
+  // Issue a verification token and queue the verification email
+  static async sendVerificationEmail(userId: string, email: string, firstName: string) {
+    const verificationToken = await TokenService.issue(
+      userId,
+      UserTokenType.EMAIL_VERIFICATION,
+      EMAIL_VERIFICATION_TOKEN_TTL_MS
+    );
+
+    await queueEmailVerificationEmail(email, firstName, verificationToken);
+  }
+
+  // Verify email address using a verification token
+  static async verifyEmail(token: string, ipAddress?: string) {
+    const userId = await TokenService.consume(token, UserTokenType.EMAIL_VERIFICATION);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        isEmailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+    });
+
+    await queueWelcomeEmail(user.email, user.firstName);
+
+    await AuditService.log({
+      userId,
+      action: 'EMAIL_VERIFIED',
+      entityType: 'user',
+      entityId: userId,
+      ipAddress,
+    });
+
+    logger.info(`Email verified for user: ${userId}`);
+  }
+
+  // Resend the verification email. Throttled per address, and silent for
+  // unknown or already verified accounts so registration status is not revealed.
+  static async resendVerificationEmail(email: string) {
+    const throttleKey = `email-verification:resend:${email.toLowerCase()}`;
+    const acquired = await redis.set(
+      throttleKey,
+      '1',
+      'EX',
+      VERIFICATION_RESEND_COOLDOWN_SECONDS,
+      'NX'
+    );
+
+    if (!acquired) {
+      throw new TooManyRequestsError('Please wait before requesting another verification email');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || !user.isActive || user.isEmailVerified) {
+      return;
+    }
+
+    await this.sendVerificationEmail(user.id, user.email, user.firstName);
+  }
+
+  // Whether anyone can create an account through POST /auth/register
+  static async isOpenRegistrationEnabled(): Promise<boolean> {
+    return SettingService.get<boolean>('registration_enabled', true);
+  }
+
+  // Get the configured policy for unverified accounts
+  static async getEmailVerificationPolicy(): Promise<EmailVerificationPolicy> {
+    const policy = await SettingService.get<string>(
+      'email_verification_policy',
+      EmailVerificationPolicy.OFF
+    );
+
+    return Object.values(EmailVerificationPolicy).includes(policy as EmailVerificationPolicy)
+      ? (policy as EmailVerificationPolicy)
+      : EmailVerificationPolicy.OFF;
+  }
+
   // Login user
   static async login(
     email: string,
@@ -155,6 +403,9 @@ export class AuthService {
     userAgent?: string,
     ipAddress?: string
   ) {
+    // Refuse attempts while the account or IP is locked out
+    await LoginLockoutService.assertNotLocked(email, ipAddress);
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
@@ -168,10 +419,12 @@ export class AuthService {
             },
           },
         },
+        additionalRoles: { include: { role: true } },
       },
     });
 
     if (!user) {
+      await LoginLockoutService.recordFailure(email, ipAddress, userAgent);
       throw new UnauthorizedError('Invalid credentials');
     }
 
@@ -183,9 +436,138 @@ export class AuthService {
     // Verify password
     const isPasswordValid = await this.verifyPassword(user.password, password);
     if (!isPasswordValid) {
+      await LoginLockoutService.recordFailure(email, ipAddress, userAgent, user);
       throw new UnauthorizedError('Invalid credentials');
     }
 
+    await LoginLockoutService.clearFailures(email);
+
+    return this.continueLogin(user, userAgent, ipAddress, { checkPasswordExpiry: true });
+  }
+
+  // Sign in a user authenticated by an identity provider. The same account
+  // checks and second factor apply as for a password login, unless the
+  // provider has already verified a second factor.
+  static async loginWithIdentity(
+    userId: string,
+    mfaVerified: boolean,
+    userAgent?: string,
+    ipAddress?: string
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        role: true,
+        additionalRoles: { include: { role: true } },
+      },
+    });
+
+    if (!user) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    await LoginLockoutService.assertNotLocked(user.email, ipAddress);
+
+    if (!user.isActive) {
+      throw new UnauthorizedError('Account is deactivated');
+    }
+
+    // The password is not used, so its age does not matter
+    return this.continueLogin(user, userAgent, ipAddress, {
+      checkPasswordExpiry: false,
+      mfaVerified,
+    });
+  }
+
+  // Account checks shared by every login method once the user is identified,
+  // then the second factor challenge or the token pair
+  private static async continueLogin(
+    user: User & {
+      role: { mfaRequired: boolean };
+      additionalRoles: Array<{ role: { mfaRequired: boolean } }>;
+    },
+    userAgent: string | undefined,
+    ipAddress: string | undefined,
+    options: { checkPasswordExpiry: boolean; mfaVerified?: boolean }
+  ) {
+    if (user.passwordResetRequired) {
+      throw new ForbiddenError(PASSWORD_RESET_REQUIRED_MESSAGE);
+    }
+
+    // Enforce email verification policy
+    if (!user.isEmailVerified) {
+      const policy = await this.getEmailVerificationPolicy();
+      if (policy === EmailVerificationPolicy.BLOCK_LOGIN) {
+        throw new ForbiddenError('Please verify your email address before logging in');
+      }
+    }
+
+    // Force rotation of passwords older than the policy allows
+    if (options.checkPasswordExpiry && (await PasswordPolicyService.isPasswordExpired(user))) {
+      return { passwordChangeRequired: true as const };
+    }
+
+    // Require a second factor before issuing tokens
+    if (user.mfaEnabled && !options.mfaVerified) {
+      return {
+        mfaRequired: true as const,
+        mfaToken: this.generateMfaToken(user.id, 'mfa_verify'),
+      };
+    }
+
+    // A role requires MFA but the user has not enrolled yet
+    if (isMfaRequiredByRoles(user) && !options.mfaVerified) {
+      return {
+        mfaSetupRequired: true as const,
+        mfaToken: this.generateMfaToken(user.id, 'mfa_setup'),
+      };
+    }
+
+    return this.completeLogin(user.id, userAgent, ipAddress);
+  }
+
+  // Complete the second login step with a TOTP or recovery code
+  static async verifyMfaLogin(
+    mfaToken: string,
+    code: string,
+    userAgent?: string,
+    ipAddress?: string
+  ) {
+    const { userId } = this.verifyMfaToken(mfaToken, 'mfa_verify');
+
+    const isValid = await MfaService.verifyCode(userId, code);
+    if (!isValid) {
+      throw new UnauthorizedError('Invalid MFA code');
+    }
+
+    return this.completeLogin(userId, userAgent, ipAddress);
+  }
+
+  // Record a successful login and issue a token pair
+  static async completeLogin(userId: string, userAgent?: string, ipAddress?: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        role: {
+          include: {
+            permissions: {
+              include: {
+                permission: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    if (user.passwordResetRequired) {
+      throw new ForbiddenError(PASSWORD_RESET_REQUIRED_MESSAGE);
+    }
+
     // Update last login
     await prisma.user.update({
       where: { id: user.id },
@@ -201,16 +583,21 @@ export class AuthService {
       ipAddress
     );
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    // Alert on logins from unrecognized devices or networks
+    try {
+      await KnownDeviceService.recordLogin(user, userAgent, ipAddress);
+    } catch (error) {
+      logger.error('Failed to record login device:', error);
+    }
 
     return {
-      user: userWithoutPassword,
+      user: stripUserSecrets(user),
       ...tokens,
     };
   }
 
-  // Refresh access token
+  // Refresh access token. Rotation revokes only the presented token and
+  // continues its session (token family); other devices stay signed in.
   static async refreshAccessToken(
     refreshToken: string,
     userAgent?: string,
@@ -219,7 +606,107 @@ export class AuthService {
     // Verify refresh token
     const payload = this.verifyRefreshToken(refreshToken);
 
-    // Find all refresh tokens for user
+    // Tokens issued before token IDs were embedded
+    if (!payload.jti) {
+      return this.refreshLegacyToken(payload, refreshToken, userAgent, ipAddress);
+    }
+
+    // The token ID is the primary key of its stored record
+    const storedToken = await prisma.refreshToken.findUnique({
+      where: { id: payload.jti },
+    });
+
+    if (
+      !storedToken ||
+      storedToken.userId !== payload.userId ||
+      !safeCompare(storedToken.token, hashToken(refreshToken))
+    ) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    if (storedToken.isRevoked || storedToken.expiresAt <= new Date()) {
+      await this.rejectInactiveRefreshToken(
+        payload.userId,
+        storedToken.familyId,
+        userAgent,
+        ipAddress
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    // Revoke the presented token (rotation). The conditional update lets only
+    // one of several concurrent refreshes with the same token succeed.
+    const rotated = await prisma.refreshToken.updateMany({
+      where: { id: storedToken.id, isRevoked: false },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+      },
+    });
+
+    if (rotated.count === 0) {
+      await this.rejectInactiveRefreshToken(
+        payload.userId,
+        storedToken.familyId,
+        userAgent,
+        ipAddress
+      );
+    }
+
+    // Generate new token pair in the same family
+    return this.generateTokenPair(
+      user.id,
+      user.email,
+      user.roleId,
+      userAgent,
+      ipAddress,
+      storedToken.familyId
+    );
+  }
+
+  // Reject a refresh token that is no longer active. If its family is still
+  // live the token has already been rotated, so it is being replayed.
+  private static async rejectInactiveRefreshToken(
+    userId: string,
+    familyId: string,
+    userAgent?: string,
+    ipAddress?: string
+  ): Promise<never> {
+    const activeInFamily = await prisma.refreshToken.count({
+      where: {
+        familyId,
+        isRevoked: false,
+        expiresAt: {
+          gt: new Date(),
+        },
+      },
+    });
+
+    if (activeInFamily > 0) {
+      await this.handleRefreshTokenReuse(userId, familyId, userAgent, ipAddress);
+    }
+
+    throw new UnauthorizedError('Invalid refresh token');
+  }
+
+  // Refresh a token issued before token IDs were embedded. Those are stored as
+  // argon2 hashes and can only be found by scanning, so the session is moved to
+  // a new-format token. This path is unused once REFRESH_TOKEN_EXPIRES_IN has
+  // passed after the upgrade.
+  private static async refreshLegacyToken(
+    payload: JWTPayload,
+    refreshToken: string,
+    userAgent?: string,
+    ipAddress?: string
+  ) {
     const storedTokens = await prisma.refreshToken.findMany({
       where: {
         userId: payload.userId,
@@ -227,23 +714,33 @@ export class AuthService {
         expiresAt: {
           gt: new Date(),
         },
+        token: {
+          startsWith: LEGACY_REFRESH_TOKEN_HASH_PREFIX,
+        },
+        ...(payload.sessionId && { familyId: payload.sessionId }),
       },
     });
 
-    // Check if refresh token exists and is valid
-    let isValidToken = false;
+    let matchedToken: (typeof storedTokens)[number] | undefined;
     for (const storedToken of storedTokens) {
       if (await this.verifyPassword(storedToken.token, refreshToken)) {
-        isValidToken = true;
+        matchedToken = storedToken;
         break;
       }
     }
 
-    if (!isValidToken) {
+    if (!matchedToken) {
+      if (payload.sessionId) {
+        await this.rejectInactiveRefreshToken(
+          payload.userId,
+          payload.sessionId,
+          userAgent,
+          ipAddress
+        );
+      }
       throw new UnauthorizedError('Invalid refresh token');
     }
 
-    // Get user
     const user = await prisma.user.findUnique({
       where: { id: payload.userId },
     });
@@ -252,19 +749,41 @@ export class AuthService {
       throw new UnauthorizedError('User not found or inactive');
     }
 
-    // Generate new token pair
-    const tokens = await this.generateTokenPair(
+    const rotated = await prisma.refreshToken.updateMany({
+      where: { id: matchedToken.id, isRevoked: false },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+      },
+    });
+
+    if (rotated.count === 0) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    // Continue the session; the family ID was backfilled for older rows
+    return this.generateTokenPair(
       user.id,
       user.email,
       user.roleId,
       userAgent,
-      ipAddress
+      ipAddress,
+      matchedToken.familyId
     );
+  }
 
-    // Revoke old refresh token (rotation)
-    await prisma.refreshToken.updateMany({
+  // Revoke a whole token family after a rotated refresh token was replayed,
+  // record a security event and alert the user
+  private static async handleRefreshTokenReuse(
+    userId: string,
+    familyId: string,
+    userAgent?: string,
+    ipAddress?: string
+  ) {
+    const result = await prisma.refreshToken.updateMany({
       where: {
-        userId: user.id,
+        userId,
+        familyId,
         isRevoked: false,
       },
       data: {
@@ -273,17 +792,77 @@ export class AuthService {
       },
     });
 
-    return tokens;
+    await TokenRevocationService.revokeSessionAccessTokens([familyId]);
+
+    logger.warn(`Refresh token reuse detected for user ${userId}, family ${familyId} revoked`);
+
+    await AuditService.log({
+      userId,
+      action: 'REFRESH_TOKEN_REUSE',
+      entityType: 'user',
+      entityId: userId,
+      changes: { familyId, revokedTokens: result.count },
+      ipAddress,
+      userAgent,
+    });
+
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        return;
+      }
+
+      const message =
+        'A previously used sign-in token was presented again, which can mean it was stolen. ' +
+        'The affected session has been signed out. If this was not you, change your password.';
+
+      await notificationService.createNotification(
+        userId,
+        NotificationType.SECURITY_ALERT,
+        'Suspicious session activity',
+        message,
+        { familyId, ipAddress }
+      );
+
+      await queueSecurityAlertEmail(
+        user.email,
+        user.firstName,
+        'Suspicious session activity',
+        message
+      );
+    } catch (error) {
+      // Alerting must not mask the refresh failure
+      logger.error('Failed to send token reuse alert:', error);
+    }
   }
 
-  // Logout user
+  // Logout user: revoke the session of the given refresh token, or all sessions
   static async logout(userId: string, refreshToken?: string) {
-    if (refreshToken) {
-      // Revoke specific refresh token
+    const sessionId = refreshToken ? this.getRefreshTokenSessionId(refreshToken) : undefined;
+
+    if (sessionId) {
+      // Revoke the token family and its access tokens
+      await prisma.refreshToken.updateMany({
+        where: {
+          userId,
+          familyId: sessionId,
+          isRevoked: false,
+        },
+        data: {
+          isRevoked: true,
+          revokedAt: new Date(),
+        },
+      });
+      await TokenRevocationService.revokeSessionAccessTokens([sessionId]);
+    } else if (refreshToken) {
+      // Revoke specific legacy refresh token
       const storedTokens = await prisma.refreshToken.findMany({
         where: {
           userId,
           isRevoked: false,
+          token: {
+            startsWith: LEGACY_REFRESH_TOKEN_HASH_PREFIX,
+          },
         },
       });
 
@@ -300,7 +879,7 @@ export class AuthService {
         }
       }
     } else {
-      // Revoke all refresh tokens for user
+      // Revoke all refresh and access tokens for user
       await prisma.refreshToken.updateMany({
         where: {
           userId,
@@ -311,9 +890,210 @@ export class AuthService {
           revokedAt: new Date(),
         },
       });
+      await TokenRevocationService.revokeAllAccessTokens(userId);
+    }
+  }
+
+  // Read the session ID from a refresh token, even if it has expired
+  private static getRefreshTokenSessionId(refreshToken: string): string | undefined {
+    try {
+      const payload = jwt.verify(refreshToken, env.JWT_REFRESH_SECRET, {
+        ignoreExpiration: true,
+      }) as JWTPayload;
+      return payload.sessionId;
+    } catch (error) {
+      return undefined;
     }
   }
 
+  // Change password of a signed-in user and sign out all sessions
+  static async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    ipAddress?: string
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (!(await this.verifyPassword(user.password, currentPassword))) {
+      throw new AppError('Current password is incorrect', 400);
+    }
+
+    await PasswordPolicyService.validate(newPassword, userId);
+    await this.setPassword(userId, newPassword);
+
+    await AuditService.log({
+      userId,
+      action: 'PASSWORD_CHANGED',
+      entityType: 'user',
+      entityId: userId,
+      ipAddress,
+    });
+
+    logger.info(`Password changed for user: ${userId}`);
+  }
+
+  // Replace an expired password with the current credentials, then continue
+  // the login (which may still require MFA)
+  static async changeExpiredPassword(
+    email: string,
+    currentPassword: string,
+    newPassword: string,
+    userAgent?: string,
+    ipAddress?: string
+  ) {
+    await LoginLockoutService.assertNotLocked(email, ipAddress);
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || !(await this.verifyPassword(user.password, currentPassword))) {
+      await LoginLockoutService.recordFailure(email, ipAddress, userAgent, user || undefined);
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    if (!user.isActive) {
+      throw new UnauthorizedError('Account is deactivated');
+    }
+
+    if (user.passwordResetRequired) {
+      throw new ForbiddenError(PASSWORD_RESET_REQUIRED_MESSAGE);
+    }
+
+    // Only an expired password may be changed without a full login
+    if (!(await PasswordPolicyService.isPasswordExpired(user))) {
+      throw new AppError('Password has not expired, use change password instead', 400);
+    }
+
+    await PasswordPolicyService.validate(newPassword, user.id);
+    await this.setPassword(user.id, newPassword);
+
+    await AuditService.log({
+      userId: user.id,
+      action: 'PASSWORD_CHANGED',
+      entityType: 'user',
+      entityId: user.id,
+      changes: { reason: 'expired' },
+      ipAddress,
+      userAgent,
+    });
+
+    logger.info(`Expired password changed for user: ${user.id}`);
+
+    return this.login(email, newPassword, userAgent, ipAddress);
+  }
+
+  // Revoke every refresh and access token and API key of a user whose password
+  // changed, so nothing issued under the old password keeps working
+  static async revokeCredentials(userId: string) {
+    await this.logout(userId);
+    await ApiKeyService.revokeAllKeys(userId);
+  }
+
+  // Store a new password (already checked against the policy), remember it in
+  // the history and revoke the user's credentials
+  private static async setPassword(userId: string, newPassword: string) {
+    const hashedPassword = await this.hashPassword(newPassword);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+        passwordResetRequired: false,
+      },
+    });
+
+    await PasswordPolicyService.recordHistory(userId, hashedPassword);
+    await this.revokeCredentials(userId);
+  }
+
+  // Handle a "this wasn't me" link from a new-device alert: sign out every
+  // session, revoke API keys, block login until the password is reset and
+  // email a reset link
+  static async secureAccount(token: string, userAgent?: string, ipAddress?: string) {
+    const userId = await TokenService.consume(token, UserTokenType.SECURE_ACCOUNT);
+    await TokenService.revokeAll(userId, UserTokenType.SECURE_ACCOUNT);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { passwordResetRequired: true },
+    });
+
+    await SessionService.revokeAllSessions(userId, undefined, userId, ipAddress);
+    const revokedApiKeys = await ApiKeyService.revokeAllKeys(userId);
+
+    // The reported device must raise an alert again if it is used after the reset
+    await KnownDeviceService.removeAllDevices(userId);
+
+    await AuditService.log({
+      userId,
+      action: 'ACCOUNT_SECURED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { revokedApiKeys },
+      ipAddress,
+      userAgent,
+    });
+
+    logger.warn(`User ${userId} reported a login as not theirs, account secured`);
+
+    await this.requestPasswordReset(user.email);
+  }
+
+  // Request a password reset link. Silently does nothing for unknown or
+  // inactive accounts so the caller cannot tell whether an email is registered.
+  static async requestPasswordReset(email: string) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || !user.isActive) {
+      logger.info(`Password reset requested for unknown or inactive account: ${email}`);
+      return;
+    }
+
+    const resetToken = await TokenService.issue(
+      user.id,
+      UserTokenType.PASSWORD_RESET,
+      PASSWORD_RESET_TOKEN_TTL_MS
+    );
+
+    await queuePasswordResetEmail(user.email, resetToken);
+
+    logger.info(`Password reset requested for user: ${user.id}`);
+  }
+
+  // Reset password using a reset token
+  static async resetPassword(token: string, newPassword: string, ipAddress?: string) {
+    // Check the policy before consuming so a rejected password keeps the link usable
+    const tokenUserId = await TokenService.verify(token, UserTokenType.PASSWORD_RESET);
+    await PasswordPolicyService.validate(newPassword, tokenUserId);
+
+    const userId = await TokenService.consume(token, UserTokenType.PASSWORD_RESET);
+    await this.setPassword(userId, newPassword);
+
+    // Invalidate any other outstanding reset links
+    await TokenService.revokeAll(userId, UserTokenType.PASSWORD_RESET);
+
+    await AuditService.log({
+      userId,
+      action: 'PASSWORD_RESET',
+      entityType: 'user',
+      entityId: userId,
+      ipAddress,
+    });
+
+    logger.info(`Password reset for user: ${userId}`);
+  }
+
   // Clean up expired tokens
   static async cleanupExpiredTokens() {
     const result = await prisma.refreshToken.deleteMany({
@@ -328,20 +1108,16 @@ export class AuthService {
     return result.count;
   }
 
-  // Get user by ID with permissions
+  // Get user by ID with their effective permissions (all roles plus overrides)
+  // Role permissions come from the per-role cache, so authenticate does not
+  // join them on every request. Only ever returned to the user themselves
+  // (/me), so sensitive fields are left unmasked; use UserFieldPolicyService
+  // before returning it to anyone else.
   static async getUserWithPermissions(userId: string) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
       include: {
-        role: {
-          include: {
-            permissions: {
-              include: {
-                permission: true,
-              },
-            },
-          },
-        },
+        ...userPermissionsInclude,
         department: true,
       },
     });
@@ -350,7 +1126,13 @@ export class AuthService {
       throw new NotFoundError('User not found');
     }
 
-    const { password, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+    const permissions = await PermissionService.resolveEffectivePermissions(user);
+    const { additionalRoles, ...rest } = user;
+
+    return stripUserSecrets({
+      ...rest,
+      additionalRoles: additionalRoles.map((ur) => ur.role),
+      permissions,
+    });
   }
 }
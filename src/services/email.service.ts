@@ -130,6 +130,185 @@ class EmailService {
     });
   }
 
+  async sendEmailVerificationEmail(to: string, firstName: string, verificationToken: string) {
+    const verifyUrl = `${env.CORS_ORIGIN}/verify-email?token=${verificationToken}`;
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #4F46E5; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f9fafb; }
+          .button { display: inline-block; padding: 12px 24px; background: #4F46E5; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .warning { background: #FEF3C7; padding: 10px; border-left: 4px solid #F59E0B; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Verify Your Email</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${firstName}!</h2>
+            <p>Please confirm your email address to activate your HR System account.</p>
+            <a href="${verifyUrl}" class="button">Verify Email</a>
+            <div class="warning">
+              <p><strong>Note:</strong> This link will expire in 24 hours.</p>
+            </div>
+            <p>If you didn't create an account, please ignore this email.</p>
+            <p>Best regards,<br>HR Team</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: 'Verify Your Email Address',
+      html,
+    });
+  }
+
+  async sendInvitationEmail(
+    to: string,
+    firstName: string,
+    invitationToken: string,
+    expiresAt: Date
+  ) {
+    const acceptUrl = `${env.CORS_ORIGIN}/accept-invitation?token=${invitationToken}`;
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #4F46E5; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f9fafb; }
+          .button { display: inline-block; padding: 12px 24px; background: #4F46E5; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .warning { background: #FEF3C7; padding: 10px; border-left: 4px solid #F59E0B; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>You're Invited</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${firstName}!</h2>
+            <p>You have been invited to join the HR System. Set your password to activate your account.</p>
+            <a href="${acceptUrl}" class="button">Accept Invitation</a>
+            <div class="warning">
+              <p><strong>Note:</strong> This link will expire on ${expiresAt.toUTCString()}.</p>
+            </div>
+            <p>If you were not expecting this invitation, please ignore this email.</p>
+            <p>Best regards,<br>HR Team</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: 'Invitation to the HR System',
+      html,
+    });
+  }
+
+  async sendSecurityAlertEmail(to: string, firstName: string, title: string, message: string) {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #EF4444; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f9fafb; }
+          .details { background: white; padding: 15px; border-left: 4px solid #EF4444; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${title}</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${firstName},</h2>
+            <div class="details">
+              <p>${message}</p>
+            </div>
+            <p>If you have any concerns, please contact your administrator.</p>
+            <p>Best regards,<br>HR Team</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: `Security alert: ${title}`,
+      html,
+    });
+  }
+
+  async sendNewDeviceLoginEmail(
+    to: string,
+    firstName: string,
+    device: string,
+    ipAddress: string,
+    loginAt: Date,
+    secureAccountToken: string
+  ) {
+    const secureUrl = `${env.CORS_ORIGIN}/secure-account?token=${secureAccountToken}`;
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #EF4444; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f9fafb; }
+          .details { background: white; padding: 15px; border-left: 4px solid #EF4444; margin: 20px 0; }
+          .button { display: inline-block; padding: 12px 24px; background: #EF4444; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>New Sign-In to Your Account</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${firstName},</h2>
+            <p>Your account was just signed in to from a device or network we don't recognize.</p>
+            <div class="details">
+              <p><strong>Device:</strong> ${device}</p>
+              <p><strong>IP address:</strong> ${ipAddress}</p>
+              <p><strong>Time:</strong> ${loginAt.toUTCString()}</p>
+            </div>
+            <p>If this was you, you can ignore this email.</p>
+            <p>If this wasn't you, secure your account now. All sessions will be signed out and you will be asked to reset your password.</p>
+            <a href="${secureUrl}" class="button">This Wasn't Me</a>
+            <p>Best regards,<br>HR Team</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: 'Security alert: New sign-in to your account',
+      html,
+    });
+  }
+
   async sendLeaveRequestNotification(
     to: string,
     employeeName: string,
@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from 'uuid';
+import prisma from '../config/database';
+import env from '../config/env';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { AuthService } from './auth.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { AppError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { parseDuration } from '../utils/duration';
+import { JWTPayload } from '../types';
+
+// Super admins can act as another user with a short-lived access token that
+// carries both user IDs. There is no refresh token: the impersonation simply
+// expires, and the super admin's own session is left untouched.
+export class ImpersonationService {
+  // Issue an access token for the target user on behalf of a super admin
+  static async start(
+    impersonatorId: string,
+    targetUserId: string,
+    reason?: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    if (impersonatorId === targetUserId) {
+      throw new AppError('You cannot impersonate yourself', 400);
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      include: { role: true },
+    });
+
+    if (!target) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (!target.isActive) {
+      throw new AppError('Cannot impersonate a deactivated user', 400);
+    }
+
+    // Impersonating another super admin would hide who held that access
+    if (target.role.slug === 'super-admin') {
+      throw new ForbiddenError('Super admins cannot be impersonated');
+    }
+
+    // Each impersonation gets its own session ID so it can be ended on its own
+    const sessionId = uuidv4();
+    const payload: JWTPayload = {
+      userId: target.id,
+      email: target.email,
+      roleId: target.roleId,
+      sessionId,
+      tokenVersion: await TokenRevocationService.getTokenVersion(target.id),
+      impersonatorId,
+    };
+
+    const accessToken = AuthService.generateAccessToken(
+      payload,
+      env.IMPERSONATION_TOKEN_EXPIRES_IN
+    );
+    const expiresAt = new Date(Date.now() + parseDuration(env.IMPERSONATION_TOKEN_EXPIRES_IN));
+
+    await AuditService.log({
+      userId: impersonatorId,
+      action: 'IMPERSONATION_STARTED',
+      entityType: 'user',
+      entityId: target.id,
+      changes: { sessionId, reason, expiresAt },
+      ipAddress,
+      userAgent,
+    });
+
+    logger.warn(`User ${impersonatorId} started impersonating user ${target.id}`);
+
+    return {
+      accessToken,
+      expiresAt,
+      user: {
+        id: target.id,
+        email: target.email,
+        firstName: target.firstName,
+        lastName: target.lastName,
+        role: target.role.slug,
+      },
+    };
+  }
+
+  // End an impersonation, revoking its access token
+  static async stop(
+    payload: { userId: string; impersonatorId: string; sessionId?: string },
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    if (payload.sessionId) {
+      await TokenRevocationService.revokeSessionAccessTokens([payload.sessionId]);
+    }
+
+    await AuditService.log({
+      userId: payload.impersonatorId,
+      action: 'IMPERSONATION_ENDED',
+      entityType: 'user',
+      entityId: payload.userId,
+      changes: { sessionId: payload.sessionId },
+      ipAddress,
+      userAgent,
+    });
+
+    logger.info(`User ${payload.impersonatorId} stopped impersonating user ${payload.userId}`);
+  }
+}
@@ -0,0 +1,383 @@
+import { InvitationStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { AuthService } from './auth.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { RoleActor, RoleService } from './role.service';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import { getPaginationParams, getSkipTake } from '../utils/pagination';
+import { stripUserSecrets } from '../utils/user';
+import { queueInvitationEmail } from '../queues/email.queue';
+
+// Invitation links are valid for 7 days; a resend issues a fresh link
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Fields safe to return; the token hash never leaves the service
+const invitationSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  employeeId: true,
+  joiningDate: true,
+  status: true,
+  expiresAt: true,
+  invitedById: true,
+  acceptedUserId: true,
+  acceptedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  role: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  department: {
+    select: {
+      id: true,
+      name: true,
+      code: true,
+    },
+  },
+};
+
+export interface CreateInvitationData {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  roleId: string;
+  departmentId?: string;
+  employeeId?: string;
+  joiningDate?: Date;
+}
+
+export class InvitationService {
+  // Invite someone with their HR details pre-assigned and email them the link.
+  // The actor must be able to assign the role themselves.
+  static async createInvitation(data: CreateInvitationData, actor: RoleActor) {
+    const email = data.email.toLowerCase();
+
+    const [existingUser, pendingInvitation] = await Promise.all([
+      prisma.user.findUnique({ where: { email } }),
+      prisma.invitation.findFirst({
+        where: { email, status: InvitationStatus.PENDING, expiresAt: { gt: new Date() } },
+      }),
+    ]);
+
+    if (existingUser) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    if (pendingInvitation) {
+      throw new ConflictError('A pending invitation already exists for this email');
+    }
+
+    await RoleService.assertRoleAssignable(data.roleId, actor);
+
+    if (data.departmentId) {
+      const department = await prisma.department.findUnique({
+        where: { id: data.departmentId },
+      });
+
+      if (!department) {
+        throw new NotFoundError('Department not found');
+      }
+    }
+
+    if (data.employeeId) {
+      await this.assertEmployeeIdAvailable(data.employeeId);
+    }
+
+    const token = generateSecureToken();
+    const invitation = await prisma.invitation.create({
+      data: {
+        ...data,
+        email,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        invitedById: actor.id,
+      },
+      select: invitationSelect,
+    });
+
+    await this.sendInvitationEmail(invitation, token);
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'INVITATION_CREATED',
+      entityType: 'invitation',
+      entityId: invitation.id,
+      changes: { email, roleId: data.roleId, departmentId: data.departmentId },
+      ipAddress: actor.ipAddress,
+    });
+
+    logger.info(`Invitation ${invitation.id} created for ${email}`);
+
+    return invitation;
+  }
+
+  // List invitations, newest first. Pending invitations past their expiry are
+  // reported as expired.
+  static async listInvitations(query: any) {
+    const { page, limit } = getPaginationParams(query);
+    const { skip, take } = getSkipTake(page, limit);
+
+    const where: Prisma.InvitationWhereInput = {};
+    const now = new Date();
+
+    if (query.status === 'expired') {
+      where.status = InvitationStatus.PENDING;
+      where.expiresAt = { lte: now };
+    } else if (query.status === 'pending') {
+      where.status = InvitationStatus.PENDING;
+      where.expiresAt = { gt: now };
+    } else if (query.status === 'accepted') {
+      where.status = InvitationStatus.ACCEPTED;
+    } else if (query.status === 'revoked') {
+      where.status = InvitationStatus.REVOKED;
+    }
+
+    if (query.search) {
+      where.email = { contains: query.search };
+    }
+
+    const [invitations, total] = await Promise.all([
+      prisma.invitation.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        select: invitationSelect,
+      }),
+      prisma.invitation.count({ where }),
+    ]);
+
+    return {
+      invitations: invitations.map((invitation) => ({
+        ...invitation,
+        isExpired: invitation.status === InvitationStatus.PENDING && invitation.expiresAt <= now,
+      })),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  // Send a fresh link for a pending (or expired) invitation; the old link stops
+  // working. The role is checked again, as the actor may not be the inviter.
+  static async resendInvitation(invitationId: string, actor: RoleActor) {
+    const existing = await prisma.invitation.findUnique({ where: { id: invitationId } });
+
+    if (!existing) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    if (existing.status !== InvitationStatus.PENDING) {
+      throw new AppError(`Invitation has been ${existing.status.toLowerCase()}`, 400);
+    }
+
+    await RoleService.assertRoleAssignable(existing.roleId, actor);
+
+    const token = generateSecureToken();
+    const invitation = await prisma.invitation.update({
+      where: { id: invitationId },
+      data: {
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: invitationSelect,
+    });
+
+    await this.sendInvitationEmail(invitation, token);
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'INVITATION_RESENT',
+      entityType: 'invitation',
+      entityId: invitationId,
+      ipAddress: actor.ipAddress,
+    });
+
+    return invitation;
+  }
+
+  // Revoke a pending invitation so its link can no longer be used
+  static async revokeInvitation(invitationId: string, revokedById: string, ipAddress?: string) {
+    const result = await prisma.invitation.updateMany({
+      where: { id: invitationId, status: InvitationStatus.PENDING },
+      data: { status: InvitationStatus.REVOKED, revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Pending invitation not found');
+    }
+
+    await AuditService.log({
+      userId: revokedById,
+      action: 'INVITATION_REVOKED',
+      entityType: 'invitation',
+      entityId: invitationId,
+      ipAddress,
+    });
+
+    logger.info(`Invitation ${invitationId} revoked by ${revokedById}`);
+  }
+
+  // Public details of a valid invitation, for the accept page
+  static async getInvitationByToken(token: string) {
+    const invitation = await this.findValidInvitation(token);
+
+    return {
+      email: invitation.email,
+      firstName: invitation.firstName,
+      lastName: invitation.lastName,
+      role: invitation.role.name,
+      department: invitation.department?.name,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  // Create the invitee's account with the password they chose. The email is
+  // treated as verified since the link was delivered to it.
+  static async acceptInvitation(
+    token: string,
+    data: { password: string; firstName?: string; lastName?: string; phone?: string },
+    userAgent?: string,
+    ipAddress?: string
+  ) {
+    const invitation = await this.findValidInvitation(token);
+
+    const firstName = data.firstName || invitation.firstName;
+    const lastName = data.lastName || invitation.lastName;
+    if (!firstName || !lastName) {
+      throw new AppError('First name and last name are required', 400);
+    }
+
+    const [existingUser] = await Promise.all([
+      prisma.user.findUnique({ where: { email: invitation.email } }),
+      invitation.employeeId
+        ? this.assertEmployeeIdAvailable(invitation.employeeId, invitation.id)
+        : undefined,
+    ]);
+
+    if (existingUser) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    await PasswordPolicyService.validate(data.password);
+
+    const hashedPassword = await AuthService.hashPassword(data.password);
+    const now = new Date();
+
+    // Claim the invitation and create the user together so a link cannot be
+    // redeemed twice
+    const user = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, status: InvitationStatus.PENDING, expiresAt: { gt: now } },
+        data: { status: InvitationStatus.ACCEPTED, acceptedAt: now },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError('Invalid or expired invitation', 400);
+      }
+
+      const created = await tx.user.create({
+        data: {
+          email: invitation.email,
+          password: hashedPassword,
+          firstName,
+          lastName,
+          phone: data.phone,
+          roleId: invitation.roleId,
+          departmentId: invitation.departmentId,
+          employeeId: invitation.employeeId,
+          joiningDate: invitation.joiningDate,
+          isEmailVerified: true,
+          emailVerifiedAt: now,
+        },
+        include: {
+          role: true,
+          department: true,
+        },
+      });
+
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { acceptedUserId: created.id },
+      });
+
+      return created;
+    });
+
+    await PasswordPolicyService.recordHistory(user.id, hashedPassword);
+
+    await AuditService.log({
+      userId: user.id,
+      action: 'INVITATION_ACCEPTED',
+      entityType: 'invitation',
+      entityId: invitation.id,
+      ipAddress,
+      userAgent,
+    });
+
+    logger.info(`Invitation ${invitation.id} accepted by user ${user.id}`);
+
+    return stripUserSecrets(user);
+  }
+
+  private static async findValidInvitation(token: string) {
+    const invitation = await prisma.invitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { role: true, department: true },
+    });
+
+    if (
+      !invitation ||
+      invitation.status !== InvitationStatus.PENDING ||
+      invitation.expiresAt <= new Date()
+    ) {
+      throw new AppError('Invalid or expired invitation', 400);
+    }
+
+    return invitation;
+  }
+
+  // Employee IDs must be unique across users and other pending invitations
+  private static async assertEmployeeIdAvailable(employeeId: string, invitationId?: string) {
+    const [existingEmployee, pendingInvitation] = await Promise.all([
+      prisma.user.findUnique({ where: { employeeId } }),
+      prisma.invitation.findFirst({
+        where: {
+          employeeId,
+          status: InvitationStatus.PENDING,
+          expiresAt: { gt: new Date() },
+          id: invitationId ? { not: invitationId } : undefined,
+        },
+      }),
+    ]);
+
+    if (existingEmployee || pendingInvitation) {
+      throw new ConflictError('Employee ID already exists');
+    }
+  }
+
+  private static async sendInvitationEmail(
+    invitation: { email: string; firstName: string | null; expiresAt: Date },
+    token: string
+  ) {
+    try {
+      await queueInvitationEmail(
+        invitation.email,
+        invitation.firstName || 'there',
+        token,
+        invitation.expiresAt
+      );
+    } catch (error) {
+      logger.error('Failed to queue invitation email:', error);
+    }
+  }
+}
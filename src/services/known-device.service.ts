@@ -0,0 +1,150 @@
+import { NotificationType, UserTokenType } from '@prisma/client';
+import prisma from '../config/database';
+import env from '../config/env';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { TokenService } from './token.service';
+import notificationService from './notification.service';
+import { NotFoundError } from '../utils/errors';
+import { hashToken } from '../utils/crypto';
+import { getNetworkPrefix } from '../utils/ip';
+import { parseUserAgent } from '../utils/user-agent';
+import { queueNewDeviceLoginEmail } from '../queues/email.queue';
+
+// "This wasn't me" links stay valid for 7 days. Each alert gets its own link.
+const SECURE_ACCOUNT_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Fields safe to return
+const knownDeviceSelect = {
+  id: true,
+  label: true,
+  network: true,
+  ipAddress: true,
+  firstSeenAt: true,
+  lastSeenAt: true,
+};
+
+export class KnownDeviceService {
+  // Remember the device and network of a successful login, and alert the user
+  // when either has not been seen before. A user's first recorded login only
+  // establishes the baseline.
+  static async recordLogin(
+    user: { id: string; email: string; firstName: string },
+    userAgent?: string,
+    ipAddress?: string
+  ) {
+    const device = parseUserAgent(userAgent);
+    // Browser and OS only, so browser updates do not count as a new device
+    const deviceHash = hashToken(`${device.browser || ''}|${device.os || ''}`);
+    const network = getNetworkPrefix(ipAddress);
+
+    const [knownCount, knownDevice, knownNetwork] = await Promise.all([
+      prisma.knownDevice.count({ where: { userId: user.id } }),
+      prisma.knownDevice.findFirst({ where: { userId: user.id, deviceHash } }),
+      prisma.knownDevice.findFirst({ where: { userId: user.id, network } }),
+    ]);
+
+    const now = new Date();
+    await prisma.knownDevice.upsert({
+      where: { userId_deviceHash_network: { userId: user.id, deviceHash, network } },
+      update: { lastSeenAt: now, ipAddress, userAgent, label: device.label },
+      create: {
+        userId: user.id,
+        deviceHash,
+        network,
+        label: device.label,
+        ipAddress,
+        userAgent,
+      },
+    });
+
+    if (knownCount === 0 || (knownDevice && knownNetwork)) {
+      return;
+    }
+
+    await AuditService.log({
+      userId: user.id,
+      action: 'NEW_DEVICE_LOGIN',
+      entityType: 'user',
+      entityId: user.id,
+      changes: {
+        device: device.label,
+        network,
+        newDevice: !knownDevice,
+        newNetwork: !knownNetwork,
+      },
+      ipAddress,
+      userAgent,
+    });
+
+    await this.sendNewDeviceAlert(user, device.label, ipAddress || 'unknown', now);
+  }
+
+  // List the devices and networks a user has logged in from, most recent first
+  static async listDevices(userId: string) {
+    return prisma.knownDevice.findMany({
+      where: { userId },
+      select: knownDeviceSelect,
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  // Forget a device, so the next login from it raises an alert again
+  static async removeDevice(userId: string, deviceId: string) {
+    const result = await prisma.knownDevice.deleteMany({
+      where: { id: deviceId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Device not found');
+    }
+  }
+
+  // Forget all of a user's devices
+  static async removeAllDevices(userId: string) {
+    await prisma.knownDevice.deleteMany({ where: { userId } });
+  }
+
+  private static async sendNewDeviceAlert(
+    user: { id: string; email: string; firstName: string },
+    device: string,
+    ipAddress: string,
+    loginAt: Date
+  ) {
+    try {
+      const secureAccountToken = await TokenService.issue(
+        user.id,
+        UserTokenType.SECURE_ACCOUNT,
+        SECURE_ACCOUNT_TOKEN_TTL_MS,
+        false
+      );
+
+      await notificationService.createNotification(
+        user.id,
+        NotificationType.SECURITY_ALERT,
+        'New sign-in to your account',
+        `Your account was signed in to from ${device} (${ipAddress}). ` +
+          "If this wasn't you, secure your account now.",
+        {
+          device,
+          ipAddress,
+          loginAt,
+          // Using the link only ever locks the account down, so it is safe in-app too
+          secureAccountUrl: `${env.CORS_ORIGIN}/secure-account?token=${secureAccountToken}`,
+        }
+      );
+
+      await queueNewDeviceLoginEmail(
+        user.email,
+        user.firstName,
+        device,
+        ipAddress,
+        loginAt,
+        secureAccountToken
+      );
+    } catch (error) {
+      // Alerting must not block the login
+      logger.error('Failed to send new device alert:', error);
+    }
+  }
+}
@@ -3,9 +3,20 @@ import { LeaveType, LeaveStatus } from '@prisma/client';
 import { NotFoundError, ForbiddenError } from '../utils/errors';
 import { getPaginationParams, getSkipTake } from '../utils/pagination';
 import { AuditService } from './audit.service';
+import { PermissionService, UserWithPermissions } from './permission.service';
+import { Resource, Action } from '../types';
 import notificationService from './notification.service';
 import { queueLeaveRequestEmail, queueLeaveStatusEmail } from '../queues/email.queue';
 
+// User fields returned with a leave request; never the full user record
+const leaveUserSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  employeeId: true,
+};
+
 export class LeaveService {
   static async createLeaveRequest(
     userId: string,
@@ -70,16 +81,17 @@ export class LeaveService {
     return leave;
   }
 
-  static async getLeaves(query: any, userId: string, isManager: boolean) {
+  static async getLeaves(query: any, currentUser: UserWithPermissions) {
     const { page, limit, sortBy, sortOrder } = getPaginationParams(query);
     const { skip, take } = getSkipTake(page, limit);
 
-    const where: any = {};
+    // Limited to the leaves of users within the permission's scope; users
+    // without leave:read see their own
+    const where: any = {
+      user: await PermissionService.getScopeFilter(currentUser, Resource.LEAVE, Action.READ),
+    };
 
-    // Regular users can only see their own leaves
-    if (!isManager) {
-      where.userId = userId;
-    } else if (query.userId) {
+    if (query.userId) {
       where.userId = query.userId;
     }
 
@@ -109,13 +121,7 @@ export class LeaveService {
         orderBy: { [sortBy]: sortOrder },
         include: {
           user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              employeeId: true,
-            },
+            select: leaveUserSelect,
           },
         },
       }),
@@ -137,6 +143,14 @@ export class LeaveService {
       throw new NotFoundError('Leave request not found');
     }
 
+    // The approver's scope (e.g. direct reports or department) must cover the requester
+    await PermissionService.requirePermission(
+      approverId,
+      Resource.LEAVE,
+      Action.APPROVE,
+      leave.userId
+    );
+
     if (leave.status !== LeaveStatus.PENDING) {
       throw new ForbiddenError('Leave request has already been processed');
     }
@@ -149,7 +163,9 @@ export class LeaveService {
         approvedAt: new Date(),
       },
       include: {
-        user: true,
+        user: {
+          select: leaveUserSelect,
+        },
       },
     });
 
@@ -191,6 +207,13 @@ export class LeaveService {
       throw new NotFoundError('Leave request not found');
     }
 
+    await PermissionService.requirePermission(
+      rejecterId,
+      Resource.LEAVE,
+      Action.REJECT,
+      leave.userId
+    );
+
     if (leave.status !== LeaveStatus.PENDING) {
       throw new ForbiddenError('Leave request has already been processed');
     }
@@ -204,7 +227,9 @@ export class LeaveService {
         rejectionReason: reason,
       },
       include: {
-        user: true,
+        user: {
+          select: leaveUserSelect,
+        },
       },
     });
 
@@ -0,0 +1,270 @@
+import { authenticator } from 'otplib';
+import prisma from '../config/database';
+import redis from '../config/redis';
+import env from '../config/env';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import {
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from '../utils/errors';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import { isMfaRequiredByRoles } from '../utils/user';
+
+// Accept codes from the previous and next 30s step to tolerate clock drift
+authenticator.options = { window: 1 };
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Failed MFA attempts allowed per user before further attempts are refused
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPTS_WINDOW_SECONDS = 15 * 60;
+
+// A TOTP code stays valid for up to 3 steps with the window above
+const USED_CODE_TTL_SECONDS = 90;
+
+const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+export class MfaService {
+  // Start TOTP enrollment: store a pending secret and return it with an otpauth URI
+  static async beginEnrollment(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (user.mfaEnabled) {
+      throw new ConflictError('MFA is already enabled');
+    }
+
+    const secret = authenticator.generateSecret();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mfaSecret: secret },
+    });
+
+    return {
+      secret,
+      otpauthUri: authenticator.keyuri(user.email, env.MFA_ISSUER, secret),
+    };
+  }
+
+  // Confirm enrollment with a code from the authenticator app.
+  // Returns the recovery codes, which are only shown once.
+  static async confirmEnrollment(userId: string, code: string, ipAddress?: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (user.mfaEnabled) {
+      throw new ConflictError('MFA is already enabled');
+    }
+
+    if (!user.mfaSecret) {
+      throw new AppError('MFA enrollment has not been started', 400);
+    }
+
+    const isValid = await this.verifyTotp(userId, user.mfaSecret, code);
+    if (!isValid) {
+      throw new UnauthorizedError('Invalid MFA code');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: true,
+        mfaEnabledAt: new Date(),
+      },
+    });
+
+    const recoveryCodes = await this.generateRecoveryCodes(userId);
+
+    await AuditService.log({
+      userId,
+      action: 'MFA_ENABLED',
+      entityType: 'user',
+      entityId: userId,
+      ipAddress,
+    });
+
+    logger.info(`MFA enabled for user: ${userId}`);
+
+    return recoveryCodes;
+  }
+
+  // Disable MFA (not allowed when one of the user's roles requires it)
+  static async disable(userId: string, code: string, ipAddress?: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { role: true, additionalRoles: { include: { role: true } } },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (!user.mfaEnabled) {
+      throw new AppError('MFA is not enabled', 400);
+    }
+
+    if (isMfaRequiredByRoles(user)) {
+      throw new ForbiddenError('MFA is mandatory for your role and cannot be disabled');
+    }
+
+    const isValid = await this.verifyCode(userId, code);
+    if (!isValid) {
+      throw new UnauthorizedError('Invalid MFA code');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaEnabledAt: null,
+      },
+    });
+
+    await prisma.mfaRecoveryCode.deleteMany({ where: { userId } });
+
+    await AuditService.log({
+      userId,
+      action: 'MFA_DISABLED',
+      entityType: 'user',
+      entityId: userId,
+      ipAddress,
+    });
+
+    logger.info(`MFA disabled for user: ${userId}`);
+  }
+
+  // Replace all recovery codes after verifying a current code
+  static async regenerateRecoveryCodes(userId: string, code: string, ipAddress?: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || !user.mfaEnabled) {
+      throw new AppError('MFA is not enabled', 400);
+    }
+
+    const isValid = await this.verifyCode(userId, code);
+    if (!isValid) {
+      throw new UnauthorizedError('Invalid MFA code');
+    }
+
+    const recoveryCodes = await this.generateRecoveryCodes(userId);
+
+    await AuditService.log({
+      userId,
+      action: 'MFA_RECOVERY_CODES_REGENERATED',
+      entityType: 'user',
+      entityId: userId,
+      ipAddress,
+    });
+
+    return recoveryCodes;
+  }
+
+  // Verify a TOTP code or a recovery code for an enrolled user.
+  // Failed attempts are counted and further attempts refused once the limit is hit.
+  static async verifyCode(userId: string, code: string): Promise<boolean> {
+    const failuresKey = `mfa:failures:${userId}`;
+    const failures = parseInt((await redis.get(failuresKey)) || '0', 10);
+
+    if (failures >= MAX_FAILED_ATTEMPTS) {
+      throw new TooManyRequestsError('Too many failed MFA attempts, please try again later');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || !user.mfaEnabled || !user.mfaSecret) {
+      return false;
+    }
+
+    const normalized = code.replace(/\s/g, '');
+    const isValid = TOTP_CODE_PATTERN.test(normalized)
+      ? await this.verifyTotp(userId, user.mfaSecret, normalized)
+      : await this.consumeRecoveryCode(userId, normalized);
+
+    if (isValid) {
+      await redis.del(failuresKey);
+    } else {
+      await redis
+        .multi()
+        .incr(failuresKey)
+        .expire(failuresKey, FAILED_ATTEMPTS_WINDOW_SECONDS)
+        .exec();
+      logger.warn(`Failed MFA attempt for user: ${userId}`);
+    }
+
+    return isValid;
+  }
+
+  // Check a TOTP code and reject replays of a code that was already accepted
+  private static async verifyTotp(userId: string, secret: string, code: string) {
+    if (!authenticator.check(code, secret)) {
+      return false;
+    }
+
+    const firstUse = await redis.set(
+      `mfa:used:${userId}:${code}`,
+      '1',
+      'EX',
+      USED_CODE_TTL_SECONDS,
+      'NX'
+    );
+
+    return firstUse === 'OK';
+  }
+
+  // Redeem a single-use recovery code
+  private static async consumeRecoveryCode(userId: string, code: string) {
+    const result = await prisma.mfaRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(this.normalizeRecoveryCode(code)),
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      logger.info(`MFA recovery code used by user: ${userId}`);
+    }
+
+    return result.count > 0;
+  }
+
+  // Generate a fresh set of recovery codes, replacing any existing ones
+  private static async generateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = generateSecureToken(5);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await prisma.$transaction([
+      prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({
+          userId,
+          codeHash: hashToken(this.normalizeRecoveryCode(code)),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  private static normalizeRecoveryCode(code: string) {
+    return code.replace(/-/g, '').toLowerCase();
+  }
+}
@@ -0,0 +1,372 @@
+import crypto, { KeyObject } from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/database';
+import env from '../config/env';
+import logger from '../config/logger';
+import redis from '../config/redis';
+import { AuthService } from './auth.service';
+import { AuditService } from './audit.service';
+import { AppError, ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { generateSecureToken } from '../utils/crypto';
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcLoginState {
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  amr?: string[];
+  acr?: string;
+  [claim: string]: unknown;
+}
+
+// Login state (state, nonce, PKCE verifier) lives until the callback or expiry
+const LOGIN_STATE_TTL_SECONDS = 10 * 60;
+
+// Provider metadata is refreshed hourly; an unknown kid triggers a JWKS refresh
+// at most once a minute
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+const JWKS_REFRESH_INTERVAL_MS = 60 * 1000;
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'];
+
+export const SSO_NOT_LINKED_MESSAGE = 'No account is linked to this identity';
+
+const loginStateKey = (state: string) => `oidc:state:${state}`;
+
+const base64Url = (buffer: Buffer) => buffer.toString('base64url');
+
+let discovery: { document: OidcDiscovery; fetchedAt: number } | undefined;
+let jwks: { keys: Map<string, KeyObject>; fetchedAt: number } | undefined;
+
+export class OidcService {
+  static isEnabled(): boolean {
+    return Boolean(env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_REDIRECT_URI);
+  }
+
+  // Build the provider authorization URL and remember the login state
+  static async getAuthorizationUrl(): Promise<string> {
+    const config = await this.getDiscovery();
+
+    const state = generateSecureToken(16);
+    const nonce = generateSecureToken(16);
+    const codeVerifier = base64Url(crypto.randomBytes(32));
+    const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+    const loginState: OidcLoginState = { nonce, codeVerifier };
+    await redis.set(
+      loginStateKey(state),
+      JSON.stringify(loginState),
+      'EX',
+      LOGIN_STATE_TTL_SECONDS
+    );
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: env.OIDC_CLIENT_ID!,
+      redirect_uri: env.OIDC_REDIRECT_URI!,
+      scope: env.OIDC_SCOPES,
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return `${config.authorization_endpoint}?${params.toString()}`;
+  }
+
+  // Complete the authorization code flow and sign the linked user in, or
+  // return the MFA challenge they must complete first
+  static async handleCallback(code: string, state: string, userAgent?: string, ipAddress?: string) {
+    // The state is single use
+    const [[, storedState]] = (await redis
+      .multi()
+      .get(loginStateKey(state))
+      .del(loginStateKey(state))
+      .exec()) as [[Error | null, string | null], [Error | null, number]];
+
+    if (!storedState) {
+      throw new UnauthorizedError('Invalid or expired login state');
+    }
+
+    const { nonce, codeVerifier } = JSON.parse(storedState) as OidcLoginState;
+
+    const idToken = await this.exchangeCode(code, codeVerifier);
+    const claims = await this.verifyIdToken(idToken, nonce);
+    const userId = await this.resolveUser(claims, ipAddress, userAgent);
+
+    return AuthService.loginWithIdentity(userId, this.isMfaVerified(claims), userAgent, ipAddress);
+  }
+
+  // Whether the provider reports a second factor that is trusted by
+  // OIDC_MFA_AMR_VALUES or OIDC_MFA_ACR_VALUES
+  static isMfaVerified(claims: OidcClaims): boolean {
+    const amr = Array.isArray(claims.amr) ? claims.amr : [];
+
+    return (
+      amr.some((method) => env.OIDC_MFA_AMR_VALUES.includes(method)) ||
+      (typeof claims.acr === 'string' && env.OIDC_MFA_ACR_VALUES.includes(claims.acr))
+    );
+  }
+
+  // Validate an ID token: signature against the provider JWKS, issuer,
+  // audience, expiry and the nonce bound to this login
+  static async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+    const config = await this.getDiscovery();
+
+    let claims: OidcClaims;
+    try {
+      const header = jwt.decode(idToken, { complete: true })?.header;
+      if (!header || !ID_TOKEN_ALGORITHMS.includes(header.alg as jwt.Algorithm)) {
+        throw new Error('Unsupported ID token algorithm');
+      }
+
+      const key = await this.getProviderKey(header.kid);
+      claims = jwt.verify(idToken, key, {
+        algorithms: [header.alg as jwt.Algorithm],
+        issuer: config.issuer,
+        audience: env.OIDC_CLIENT_ID,
+        clockTolerance: 60,
+      }) as OidcClaims;
+    } catch (error) {
+      logger.warn('ID token validation failed:', error);
+      throw new UnauthorizedError('Invalid ID token');
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedError('Invalid ID token');
+    }
+
+    // With several audiences the token must have been issued to this client
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== env.OIDC_CLIENT_ID) {
+      throw new UnauthorizedError('Invalid ID token');
+    }
+
+    return claims;
+  }
+
+  // Find the user for an identity: by linked subject, then by verified email,
+  // then by just-in-time provisioning when enabled. Returns the user ID.
+  static async resolveUser(
+    claims: OidcClaims,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<string> {
+    const identity = await prisma.userIdentity.findUnique({
+      where: { issuer_subject: { issuer: claims.iss, subject: claims.sub } },
+    });
+
+    if (identity) {
+      await prisma.userIdentity.update({
+        where: { id: identity.id },
+        data: { lastLoginAt: new Date(), email: claims.email },
+      });
+      return identity.userId;
+    }
+
+    const email = claims.email_verified === true ? claims.email : undefined;
+
+    if (email && env.OIDC_LINK_BY_EMAIL) {
+      const user = await prisma.user.findUnique({ where: { email } });
+      if (user) {
+        await this.linkIdentity(user.id, claims, ipAddress, userAgent);
+        return user.id;
+      }
+    }
+
+    if (email && env.OIDC_JIT_PROVISIONING) {
+      const userId = await this.provisionUser(email, claims, ipAddress, userAgent);
+      await this.linkIdentity(userId, claims, ipAddress, userAgent);
+      return userId;
+    }
+
+    throw new ForbiddenError(SSO_NOT_LINKED_MESSAGE);
+  }
+
+  private static async linkIdentity(
+    userId: string,
+    claims: OidcClaims,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    await prisma.userIdentity.create({
+      data: {
+        userId,
+        issuer: claims.iss,
+        subject: claims.sub,
+        email: claims.email,
+        lastLoginAt: new Date(),
+      },
+    });
+
+    await AuditService.log({
+      userId,
+      action: 'SSO_IDENTITY_LINKED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { issuer: claims.iss, subject: claims.sub },
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  // Create a user from ID token claims. The random password is never shared;
+  // the user can set one through password reset if local login is needed.
+  private static async provisionUser(
+    email: string,
+    claims: OidcClaims,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<string> {
+    const roleSlug = this.mapRole(claims);
+    const role = await prisma.role.findUnique({ where: { slug: roleSlug } });
+
+    if (!role) {
+      throw new AppError(`SSO role "${roleSlug}" not found`, 500);
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await AuthService.hashPassword(generateSecureToken()),
+        firstName: claims.given_name || claims.name || email.split('@')[0],
+        lastName: claims.family_name || '',
+        isEmailVerified: true,
+        emailVerifiedAt: new Date(),
+        roleId: role.id,
+      },
+    });
+
+    await AuditService.log({
+      userId: user.id,
+      action: 'SSO_USER_PROVISIONED',
+      entityType: 'user',
+      entityId: user.id,
+      changes: { issuer: claims.iss, role: roleSlug },
+      ipAddress,
+      userAgent,
+    });
+
+    logger.info(`Provisioned user ${user.id} from SSO login`);
+
+    return user.id;
+  }
+
+  // First claim value with a role mapping wins, otherwise the default role
+  private static mapRole(claims: OidcClaims): string {
+    if (env.OIDC_ROLE_CLAIM) {
+      const claim = claims[env.OIDC_ROLE_CLAIM];
+      const values = Array.isArray(claim) ? claim : [claim];
+      for (const value of values) {
+        if (typeof value === 'string' && env.OIDC_ROLE_MAPPING[value]) {
+          return env.OIDC_ROLE_MAPPING[value];
+        }
+      }
+    }
+
+    return env.OIDC_DEFAULT_ROLE;
+  }
+
+  // Redeem the authorization code (with the PKCE verifier) for an ID token
+  private static async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const config = await this.getDiscovery();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: env.OIDC_REDIRECT_URI!,
+      client_id: env.OIDC_CLIENT_ID!,
+      code_verifier: codeVerifier,
+    });
+
+    try {
+      const response = await axios.post(config.token_endpoint, body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        // Confidential clients authenticate with client_secret_basic
+        auth: env.OIDC_CLIENT_SECRET
+          ? { username: env.OIDC_CLIENT_ID!, password: env.OIDC_CLIENT_SECRET }
+          : undefined,
+      });
+
+      if (typeof response.data?.id_token !== 'string') {
+        throw new Error('Token response has no id_token');
+      }
+
+      return response.data.id_token;
+    } catch (error) {
+      logger.warn('OIDC code exchange failed:', error);
+      throw new UnauthorizedError('Single sign-on failed');
+    }
+  }
+
+  private static async getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.isEnabled()) {
+      throw new AppError('Single sign-on is not configured', 404);
+    }
+
+    if (discovery && Date.now() - discovery.fetchedAt < DISCOVERY_CACHE_MS) {
+      return discovery.document;
+    }
+
+    const issuer = env.OIDC_ISSUER!.replace(/\/$/, '');
+    const response = await axios.get<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`);
+
+    // The issuer in the metadata must match the configured one exactly
+    if (response.data.issuer.replace(/\/$/, '') !== issuer) {
+      throw new AppError('OIDC discovery issuer mismatch', 502);
+    }
+
+    discovery = { document: response.data, fetchedAt: Date.now() };
+    return response.data;
+  }
+
+  // Provider signing key by kid, refreshing the JWKS when the kid is unknown
+  // (the provider rotated its keys)
+  private static async getProviderKey(kid?: string): Promise<KeyObject> {
+    const findKey = () =>
+      kid ? jwks?.keys.get(kid) : jwks?.keys.size === 1 ? [...jwks.keys.values()][0] : undefined;
+
+    let key = findKey();
+    if (!key && (!jwks || Date.now() - jwks.fetchedAt > JWKS_REFRESH_INTERVAL_MS)) {
+      const config = await this.getDiscovery();
+      const response = await axios.get<{ keys: (crypto.JsonWebKey & { kid?: string })[] }>(
+        config.jwks_uri
+      );
+
+      const keys = new Map<string, KeyObject>();
+      for (const jwk of response.data.keys) {
+        if (jwk.use && jwk.use !== 'sig') {
+          continue;
+        }
+        keys.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+
+      jwks = { keys, fetchedAt: Date.now() };
+      key = findKey();
+    }
+
+    if (!key) {
+      throw new Error(`Unknown ID token signing key: ${kid}`);
+    }
+
+    return key;
+  }
+}
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import argon2 from 'argon2';
+import prisma from '../config/database';
+import env from '../config/env';
+import logger from '../config/logger';
+import { SettingService } from './setting.service';
+import { ValidationError } from '../utils/errors';
+import bundledBreachedPasswords from '../data/breached-passwords.json';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSpecial: boolean;
+  // Number of previous passwords (including the current one) that cannot be reused
+  historyCount: number;
+  // Days after which a password must be changed (0 disables expiry)
+  maxAgeDays: number;
+  checkBreached: boolean;
+}
+
+// Settings in this category override the defaults below
+const PASSWORD_POLICY_CATEGORY = 'password_policy';
+
+const POLICY_SETTING_KEYS: Record<keyof PasswordPolicy, string> = {
+  minLength: 'password_min_length',
+  requireUppercase: 'password_require_uppercase',
+  requireLowercase: 'password_require_lowercase',
+  requireNumber: 'password_require_number',
+  requireSpecial: 'password_require_special',
+  historyCount: 'password_history_count',
+  maxAgeDays: 'password_max_age_days',
+  checkBreached: 'password_check_breached',
+};
+
+const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSpecial: true,
+  historyCount: 5,
+  maxAgeDays: 0,
+  checkBreached: true,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let breachedPasswords: Set<string> | undefined;
+
+// Load the bundled list plus the optional external list once, lowercased
+const getBreachedPasswords = (): Set<string> => {
+  if (!breachedPasswords) {
+    breachedPasswords = new Set(bundledBreachedPasswords);
+
+    if (env.BREACHED_PASSWORDS_FILE) {
+      try {
+        const lines = fs.readFileSync(env.BREACHED_PASSWORDS_FILE, 'utf8').split(/\r?\n/);
+        for (const line of lines) {
+          const password = line.trim().toLowerCase();
+          if (password) {
+            breachedPasswords.add(password);
+          }
+        }
+      } catch (error) {
+        logger.error('Failed to load breached password list:', error);
+      }
+    }
+  }
+
+  return breachedPasswords;
+};
+
+export class PasswordPolicyService {
+  // Current policy from settings, falling back to defaults for unset values
+  static async getPolicy(): Promise<PasswordPolicy> {
+    const settings = await SettingService.getCategory(PASSWORD_POLICY_CATEGORY);
+
+    const policy = { ...DEFAULT_PASSWORD_POLICY };
+    for (const [field, key] of Object.entries(POLICY_SETTING_KEYS)) {
+      const value = settings[key];
+      const name = field as keyof PasswordPolicy;
+      if (typeof value === typeof DEFAULT_PASSWORD_POLICY[name]) {
+        (policy as Record<keyof PasswordPolicy, unknown>)[name] = value;
+      }
+    }
+
+    return policy;
+  }
+
+  // Check a new password against the policy, and against the user's recent
+  // passwords when a user ID is given. Throws a ValidationError listing every
+  // rule that failed.
+  static async validate(password: string, userId?: string) {
+    const policy = await this.getPolicy();
+    const failures: string[] = [];
+
+    if (password.length < policy.minLength) {
+      failures.push(`Password must be at least ${policy.minLength} characters`);
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      failures.push('Password must contain at least one uppercase letter');
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      failures.push('Password must contain at least one lowercase letter');
+    }
+    if (policy.requireNumber && !/[0-9]/.test(password)) {
+      failures.push('Password must contain at least one number');
+    }
+    if (policy.requireSpecial && !/[^A-Za-z0-9]/.test(password)) {
+      failures.push('Password must contain at least one special character');
+    }
+    if (policy.checkBreached && getBreachedPasswords().has(password.toLowerCase())) {
+      failures.push('Password has appeared in a data breach, please choose another');
+    }
+    if (
+      userId &&
+      policy.historyCount > 0 &&
+      (await this.isRecentlyUsed(userId, password, policy))
+    ) {
+      failures.push(`Password must not match any of your last ${policy.historyCount} passwords`);
+    }
+
+    if (failures.length > 0) {
+      throw new ValidationError(
+        'Password does not meet the password policy',
+        failures.map((message) => ({ path: ['password'], message }))
+      );
+    }
+  }
+
+  // Remember a newly set password hash, keeping only what the policy needs
+  static async recordHistory(userId: string, passwordHash: string) {
+    await prisma.passwordHistory.create({
+      data: { userId, passwordHash },
+    });
+
+    const { historyCount } = await this.getPolicy();
+    const stale = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: Math.max(historyCount, 1),
+      select: { id: true },
+    });
+
+    if (stale.length > 0) {
+      await prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+  }
+
+  // Whether the password is older than the maximum age. Accounts that never
+  // changed their password count from creation.
+  static async isPasswordExpired(user: { passwordChangedAt: Date | null; createdAt: Date }) {
+    const { maxAgeDays } = await this.getPolicy();
+    if (maxAgeDays <= 0) {
+      return false;
+    }
+
+    const changedAt = user.passwordChangedAt || user.createdAt;
+    return Date.now() - changedAt.getTime() > maxAgeDays * DAY_MS;
+  }
+
+  // Compare against the current password and the most recent history entries
+  private static async isRecentlyUsed(userId: string, password: string, policy: PasswordPolicy) {
+    const [user, history] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { password: true } }),
+      prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: policy.historyCount,
+        select: { passwordHash: true },
+      }),
+    ]);
+
+    const hashes = new Set(history.map((entry) => entry.passwordHash));
+    if (user) {
+      hashes.add(user.password);
+    }
+
+    for (const hash of hashes) {
+      try {
+        if (await argon2.verify(hash, password)) {
+          return true;
+        }
+      } catch (error) {
+        logger.error('Password history verification error:', error);
+      }
+    }
+
+    return false;
+  }
+}
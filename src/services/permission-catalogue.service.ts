@@ -0,0 +1,156 @@
+import { PermissionScope } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSION_CATALOGUE } from '../config/permissions';
+import { AuditService } from './audit.service';
+import { PermissionService } from './permission.service';
+
+// Difference between the code's permission catalogue and the database
+export interface PermissionCatalogueDiff {
+  // In the catalogue but not the database; created by the sync
+  missingPermissions: string[];
+  // In the database but not the catalogue (e.g. created through the API, or
+  // left behind by a removed enum value); reported only, never deleted
+  orphanedPermissions: string[];
+  // Roles named in the default mapping that do not exist; skipped
+  missingRoles: string[];
+  // Default role permissions not yet assigned; added by the sync
+  missingRolePermissions: Array<{ role: string; permission: string; scope: PermissionScope }>;
+}
+
+export class PermissionCatalogueService {
+  // Compare the catalogue and default role mapping with the database
+  static async diff(): Promise<PermissionCatalogueDiff> {
+    const [permissions, roles] = await Promise.all([
+      prisma.permission.findMany({ select: { slug: true } }),
+      prisma.role.findMany({
+        select: { slug: true, permissions: { select: { permission: { select: { slug: true } } } } },
+      }),
+    ]);
+
+    const existing = new Set(permissions.map((p) => p.slug));
+    const catalogue = new Set(PERMISSION_CATALOGUE.map((p) => p.slug));
+
+    const diff: PermissionCatalogueDiff = {
+      missingPermissions: [...catalogue].filter((slug) => !existing.has(slug)),
+      orphanedPermissions: [...existing].filter((slug) => !catalogue.has(slug)).sort(),
+      missingRoles: [],
+      missingRolePermissions: [],
+    };
+
+    for (const [roleSlug, rules] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+      const role = roles.find((r) => r.slug === roleSlug);
+      if (!role) {
+        diff.missingRoles.push(roleSlug);
+        continue;
+      }
+
+      const assigned = new Set(role.permissions.map((rp) => rp.permission.slug));
+      const added = new Set<string>();
+      for (const rule of rules) {
+        for (const permission of PERMISSION_CATALOGUE) {
+          if (
+            (!rule.resources || rule.resources.includes(permission.resource)) &&
+            (!rule.actions || rule.actions.includes(permission.action)) &&
+            !assigned.has(permission.slug) &&
+            !added.has(permission.slug)
+          ) {
+            added.add(permission.slug);
+            diff.missingRolePermissions.push({
+              role: roleSlug,
+              permission: permission.slug,
+              scope: rule.scope || PermissionScope.ALL,
+            });
+          }
+        }
+      }
+    }
+
+    return diff;
+  }
+
+  // Create missing permissions and default role permissions. With dryRun,
+  // only report what would change.
+  static async sync(options: { dryRun?: boolean } = {}): Promise<PermissionCatalogueDiff> {
+    const diff = await this.diff();
+
+    if (diff.orphanedPermissions.length > 0) {
+      logger.warn(`Permissions not in the catalogue: ${diff.orphanedPermissions.join(', ')}`);
+    }
+
+    if (diff.missingRoles.length > 0) {
+      logger.warn(
+        `Roles in the default permission mapping not found: ${diff.missingRoles.join(', ')}`
+      );
+    }
+
+    if (
+      options.dryRun ||
+      (diff.missingPermissions.length === 0 && diff.missingRolePermissions.length === 0)
+    ) {
+      return diff;
+    }
+
+    await prisma.permission.createMany({
+      data: PERMISSION_CATALOGUE.filter((p) => diff.missingPermissions.includes(p.slug)),
+      skipDuplicates: true,
+    });
+
+    if (diff.missingRolePermissions.length > 0) {
+      const [permissions, roles] = await Promise.all([
+        prisma.permission.findMany({
+          where: { slug: { in: diff.missingRolePermissions.map((rp) => rp.permission) } },
+        }),
+        prisma.role.findMany({
+          where: { slug: { in: diff.missingRolePermissions.map((rp) => rp.role) } },
+        }),
+      ]);
+      const permissionIds = new Map(permissions.map((p) => [p.slug, p.id]));
+      const roleIds = new Map(roles.map((r) => [r.slug, r.id]));
+
+      await prisma.rolePermission.createMany({
+        data: diff.missingRolePermissions.map((rp) => ({
+          roleId: roleIds.get(rp.role)!,
+          permissionId: permissionIds.get(rp.permission)!,
+          scope: rp.scope,
+        })),
+        skipDuplicates: true,
+      });
+
+      for (const roleId of roleIds.values()) {
+        await PermissionService.invalidateRolePermissions(roleId);
+      }
+    }
+
+    await AuditService.log({
+      action: 'PERMISSION_CATALOGUE_SYNCED',
+      entityType: 'permission',
+      entityId: 'catalogue',
+      changes: {
+        createdPermissions: diff.missingPermissions,
+        assignedRolePermissions: diff.missingRolePermissions,
+      },
+    });
+
+    logger.info(
+      `Permission catalogue synced: ${diff.missingPermissions.length} permissions created, ` +
+        `${diff.missingRolePermissions.length} role permissions assigned`
+    );
+
+    return diff;
+  }
+
+  // Human-readable diff for the CLI
+  static formatDiff(diff: PermissionCatalogueDiff): string {
+    const lines = [
+      ...diff.missingPermissions.map((slug) => `+ permission ${slug}`),
+      ...diff.missingRolePermissions.map(
+        (rp) => `+ role ${rp.role}: ${rp.permission} (${rp.scope})`
+      ),
+      ...diff.orphanedPermissions.map((slug) => `? orphaned permission ${slug}`),
+      ...diff.missingRoles.map((slug) => `? missing role ${slug}`),
+    ];
+
+    return lines.length > 0 ? lines.join('\n') : 'Permission catalogue is up to date';
+  }
+}
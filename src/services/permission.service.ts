@@ -1,66 +1,366 @@
+import { PermissionEffect, PermissionScope, Prisma } from '@prisma/client';
 import prisma from '../config/database';
+import redis from '../config/redis';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
 import { Resource, Action } from '../types';
 import { NotFoundError, ForbiddenError } from '../utils/errors';
 
+export type RolePermissionWithPermission = Prisma.RolePermissionGetPayload<{
+  include: { permission: true };
+}>;
+
+// Where a user's permission comes from: one of their roles, a per-user grant
+// or a temporary elevation (access grant)
+export type PermissionSource =
+  | { type: 'role'; roleId: string; roleSlug: string; scope: PermissionScope }
+  | { type: 'grant'; scope: PermissionScope }
+  | { type: 'elevation'; grantId: string; expiresAt: Date; scope: PermissionScope };
+
+// A permission the user holds, with every source granting it
+export interface EffectivePermission {
+  id: string;
+  name: string;
+  slug: string;
+  resource: string;
+  action: string;
+  sources: PermissionSource[];
+}
+
+// A user as loaded by authenticate (req.user), with their effective permissions
+export interface UserWithPermissions {
+  id: string;
+  departmentId?: string | null;
+  role: { slug: string };
+  permissions: EffectivePermission[];
+}
+
+// Relations needed to resolve a user's effective permissions
+export const userPermissionsInclude = Prisma.validator<Prisma.UserInclude>()({
+  role: true,
+  additionalRoles: { include: { role: true } },
+  permissionOverrides: { include: { permission: true } },
+  // Pending and current elevations; their time window is checked when resolving
+  accessGrants: {
+    where: { revokedAt: null, expiredAt: null },
+    include: { permission: true },
+  },
+});
+
+type UserWithPermissionRelations = Prisma.UserGetPayload<{
+  include: typeof userPermissionsInclude;
+}>;
+
+// Each role's permission assignments are cached until changed through this
+// service. Users are not cached: authenticate reads the user's current roles
+// and overrides on every request, so a change applies on the next request.
+const rolePermissionsKey = (roleId: string) => `rbac:role-permissions:${roleId}`;
+
+// Safety net for changes made outside this service (e.g. the seed)
+const ROLE_PERMISSIONS_CACHE_TTL_SECONDS = 60 * 60;
+
+// Use of an elevation is audited at most once an hour per grant
+const elevationUseKey = (grantId: string) => `rbac:elevation-used:${grantId}`;
+const ELEVATION_USE_AUDIT_INTERVAL_SECONDS = 60 * 60;
+
+// Scopes from narrowest to broadest. Every scope includes the user's own records.
+export const PERMISSION_SCOPE_ORDER: PermissionScope[] = [
+  PermissionScope.OWN,
+  PermissionScope.DIRECT_REPORTS,
+  PermissionScope.DEPARTMENT,
+  PermissionScope.DEPARTMENT_TREE,
+  PermissionScope.ALL,
+];
+
 export class PermissionService {
-  // Check if user has specific permission
+  // Check if user has specific permission, in any scope
   static async hasPermission(
     userId: string,
     resource: Resource,
     action: Action
   ): Promise<boolean> {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        role: {
-          include: {
-            permissions: {
-              include: {
-                permission: true,
-              },
-            },
-          },
-        },
-      },
-    });
+    const user = await this.loadUserWithPermissions(userId);
 
-    if (!user) {
-      return false;
-    }
+    return user ? this.userHasPermission(user, resource, action) : false;
+  }
+
+  // Check a permission against a user whose role permissions are already
+  // loaded (req.user), without querying again
+  static userHasPermission(user: UserWithPermissions, resource: Resource, action: Action) {
+    return this.getPermissionScopes(user, resource, action).length > 0;
+  }
 
+  // The scopes in which the user holds a permission; empty when not held
+  static getPermissionScopes(
+    user: UserWithPermissions,
+    resource: Resource,
+    action: Action
+  ): PermissionScope[] {
     // Super admin has all permissions
     if (user.role.slug === 'super-admin') {
-      return true;
+      return [PermissionScope.ALL];
     }
 
-    // Check if user's role has the required permission
-    return user.role.permissions.some(
-      (rp) => rp.permission.resource === resource && rp.permission.action === action
-    );
+    const permission = user.permissions.find((p) => p.resource === resource && p.action === action);
+
+    if (!permission) {
+      return [];
+    }
+
+    if (permission.sources.every((source) => source.type === 'elevation')) {
+      void this.recordElevationUse(user.id, permission);
+    }
+
+    return permission.sources.map((source) => source.scope);
   }
 
-  // Get all permissions for a user
-  static async getUserPermissions(userId: string) {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        role: {
-          include: {
-            permissions: {
-              include: {
-                permission: true,
-              },
-            },
-          },
-        },
-      },
+  // Audit that a user relied on a temporary elevation for a permission check
+  private static async recordElevationUse(userId: string, permission: EffectivePermission) {
+    try {
+      for (const source of permission.sources) {
+        if (source.type !== 'elevation') {
+          continue;
+        }
+
+        const isFirstUse = await redis.set(
+          elevationUseKey(source.grantId),
+          '1',
+          'EX',
+          ELEVATION_USE_AUDIT_INTERVAL_SECONDS,
+          'NX'
+        );
+
+        if (isFirstUse) {
+          await AuditService.log({
+            userId,
+            action: 'ACCESS_GRANT_USED',
+            entityType: 'access_grant',
+            entityId: source.grantId,
+            changes: { permission: permission.slug },
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to record access grant use:', error);
+    }
+  }
+
+  // Check a permission against the user who owns the target record, using the
+  // owner's line manager and department
+  static async userHasScopedPermission(
+    user: UserWithPermissions,
+    resource: Resource,
+    action: Action,
+    ownerId: string
+  ): Promise<boolean> {
+    const scopes = this.getPermissionScopes(user, resource, action);
+
+    return (await this.getCoveringScope(user, scopes, ownerId)) !== null;
+  }
+
+  // The first of the given scopes that covers a record owned by ownerId, or
+  // null when none does. Every scope covers the user's own records.
+  static async getCoveringScope(
+    user: Pick<UserWithPermissions, 'id' | 'departmentId'>,
+    scopes: PermissionScope[],
+    ownerId: string
+  ): Promise<PermissionScope | null> {
+    if (scopes.includes(PermissionScope.ALL)) {
+      return PermissionScope.ALL;
+    }
+
+    if (scopes.length > 0 && ownerId === user.id) {
+      return scopes[0];
+    }
+
+    const owner = await prisma.user.findUnique({
+      where: { id: ownerId },
+      select: { managerId: true, departmentId: true },
     });
 
+    if (!owner) {
+      return null;
+    }
+
+    for (const scope of scopes) {
+      if (scope === PermissionScope.DIRECT_REPORTS && owner.managerId === user.id) {
+        return scope;
+      }
+
+      if (!user.departmentId || !owner.departmentId) {
+        continue;
+      }
+
+      if (scope === PermissionScope.DEPARTMENT && owner.departmentId === user.departmentId) {
+        return scope;
+      }
+
+      if (scope === PermissionScope.DEPARTMENT_TREE) {
+        const subtree = await this.getDepartmentSubtreeIds(user.departmentId);
+        if (subtree.includes(owner.departmentId)) {
+          return scope;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // Prisma filter on the owning user that limits a list to the records the
+  // user may access. Without the permission only their own records match.
+  static async getScopeFilter(
+    user: UserWithPermissions,
+    resource: Resource,
+    action: Action
+  ): Promise<Prisma.UserWhereInput> {
+    const scopes = this.getPermissionScopes(user, resource, action);
+
+    if (scopes.includes(PermissionScope.ALL)) {
+      return {};
+    }
+
+    const conditions: Prisma.UserWhereInput[] = [{ id: user.id }];
+
+    for (const scope of scopes) {
+      if (scope === PermissionScope.DIRECT_REPORTS) {
+        conditions.push({ managerId: user.id });
+      } else if (scope === PermissionScope.DEPARTMENT && user.departmentId) {
+        conditions.push({ departmentId: user.departmentId });
+      } else if (scope === PermissionScope.DEPARTMENT_TREE && user.departmentId) {
+        conditions.push({
+          departmentId: { in: await this.getDepartmentSubtreeIds(user.departmentId) },
+        });
+      }
+    }
+
+    return conditions.length === 1 ? conditions[0] : { OR: conditions };
+  }
+
+  // A department and all departments below it through parentId
+  static async getDepartmentSubtreeIds(departmentId: string): Promise<string[]> {
+    const departments = await prisma.department.findMany({
+      select: { id: true, parentId: true },
+    });
+
+    const subtree = [departmentId];
+    // Breadth-first; the visited check guards against a parentId cycle
+    for (let i = 0; i < subtree.length; i++) {
+      for (const department of departments) {
+        if (department.parentId === subtree[i] && !subtree.includes(department.id)) {
+          subtree.push(department.id);
+        }
+      }
+    }
+
+    return subtree;
+  }
+
+  // Get a user's effective permissions: those of their primary and additional
+  // roles plus their own grants and current elevations, less their denies
+  static async getUserPermissions(userId: string): Promise<EffectivePermission[]> {
+    const user = await this.loadUserWithPermissions(userId);
+
     if (!user) {
       throw new NotFoundError('User not found');
     }
 
-    return user.role.permissions.map((rp) => rp.permission);
+    return user.permissions;
+  }
+
+  // Merge the permissions of a user (loaded with userPermissionsInclude) from
+  // all their roles, overrides and current elevations. A deny removes the
+  // permission whatever grants it.
+  static async resolveEffectivePermissions(
+    user: UserWithPermissionRelations
+  ): Promise<EffectivePermission[]> {
+    const roles = [user.role, ...user.additionalRoles.map((ur) => ur.role)];
+    const rolePermissions = await Promise.all(
+      roles.map((role) => this.getCachedRolePermissions(role.id))
+    );
+
+    const effective = new Map<string, EffectivePermission>();
+    const add = (
+      permission: RolePermissionWithPermission['permission'],
+      source: PermissionSource
+    ) => {
+      const existing = effective.get(permission.id);
+      if (existing) {
+        existing.sources.push(source);
+        return;
+      }
+      effective.set(permission.id, {
+        id: permission.id,
+        name: permission.name,
+        slug: permission.slug,
+        resource: permission.resource,
+        action: permission.action,
+        sources: [source],
+      });
+    };
+
+    roles.forEach((role, i) => {
+      for (const rp of rolePermissions[i]) {
+        add(rp.permission, { type: 'role', roleId: role.id, roleSlug: role.slug, scope: rp.scope });
+      }
+    });
+
+    for (const override of user.permissionOverrides) {
+      if (override.effect === PermissionEffect.GRANT) {
+        add(override.permission, { type: 'grant', scope: override.scope });
+      }
+    }
+
+    const now = new Date();
+    for (const grant of user.accessGrants) {
+      if (
+        grant.startsAt <= now &&
+        grant.expiresAt > now &&
+        (!grant.approverId || grant.approvedAt)
+      ) {
+        add(grant.permission, {
+          type: 'elevation',
+          grantId: grant.id,
+          expiresAt: grant.expiresAt,
+          scope: grant.scope,
+        });
+      }
+    }
+
+    for (const override of user.permissionOverrides) {
+      if (override.effect === PermissionEffect.DENY) {
+        effective.delete(override.permissionId);
+      }
+    }
+
+    return [...effective.values()];
+  }
+
+  // A role's permission assignments (with the permissions), from the cache
+  // when available. Cached values are JSON, so dates come back as strings.
+  static async getCachedRolePermissions(roleId: string): Promise<RolePermissionWithPermission[]> {
+    const cached = await redis.get(rolePermissionsKey(roleId));
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const rolePermissions = await prisma.rolePermission.findMany({
+      where: { roleId },
+      include: { permission: true },
+    });
+
+    await redis.set(
+      rolePermissionsKey(roleId),
+      JSON.stringify(rolePermissions),
+      'EX',
+      ROLE_PERMISSIONS_CACHE_TTL_SECONDS
+    );
+
+    return rolePermissions;
+  }
+
+  // Drop a role's cached permissions after its assignments change
+  static async invalidateRolePermissions(roleId: string) {
+    await redis.del(rolePermissionsKey(roleId));
   }
 
   // Get all permissions for a role
@@ -84,7 +384,11 @@ export class PermissionService {
   }
 
   // Assign permission to role
-  static async assignPermissionToRole(roleId: string, permissionId: string) {
+  static async assignPermissionToRole(
+    roleId: string,
+    permissionId: string,
+    scope: PermissionScope = PermissionScope.ALL
+  ) {
     // Check if role exists
     const role = await prisma.role.findUnique({ where: { id: roleId } });
     if (!role) {
@@ -112,15 +416,20 @@ export class PermissionService {
     }
 
     // Assign permission
-    return prisma.rolePermission.create({
+    const rolePermission = await prisma.rolePermission.create({
       data: {
         roleId,
         permissionId,
+        scope,
       },
       include: {
         permission: true,
       },
     });
+
+    await this.invalidateRolePermissions(roleId);
+
+    return rolePermission;
   }
 
   // Remove permission from role
@@ -141,6 +450,8 @@ export class PermissionService {
     await prisma.rolePermission.delete({
       where: { id: rolePermission.id },
     });
+
+    await this.invalidateRolePermissions(roleId);
   }
 
   // Create new permission
@@ -163,7 +474,8 @@ export class PermissionService {
     });
   }
 
-  // Check if user can access resource (owns or has permission)
+  // Check if user can access a resource: they own it, or hold the permission
+  // in a scope that covers the owner
   static async canAccessResource(
     userId: string,
     resource: Resource,
@@ -175,15 +487,56 @@ export class PermissionService {
       return true;
     }
 
-    // Check if user has permission
-    return this.hasPermission(userId, resource, action);
+    const user = await this.loadUserWithPermissions(userId);
+    if (!user) {
+      return false;
+    }
+
+    // Without a known owner only an unrestricted permission applies
+    if (!resourceOwnerId) {
+      return this.getPermissionScopes(user, resource, action).includes(PermissionScope.ALL);
+    }
+
+    return this.userHasScopedPermission(user, resource, action, resourceOwnerId);
   }
 
-  // Require permission (throws error if not authorized)
-  static async requirePermission(userId: string, resource: Resource, action: Action) {
-    const hasPermission = await this.hasPermission(userId, resource, action);
-    if (!hasPermission) {
+  // Require permission (throws error if not authorized). With an owner, the
+  // permission's scope must cover the owner.
+  static async requirePermission(
+    userId: string,
+    resource: Resource,
+    action: Action,
+    resourceOwnerId?: string
+  ) {
+    const user = await this.loadUserWithPermissions(userId);
+
+    const allowed =
+      !!user &&
+      (resourceOwnerId
+        ? await this.userHasScopedPermission(user, resource, action, resourceOwnerId)
+        : this.userHasPermission(user, resource, action));
+
+    if (!allowed) {
       throw new ForbiddenError(`You don't have permission to ${action} ${resource}`);
     }
   }
+
+  // Load a user with their effective permissions for permission checks
+  static async loadUserWithPermissions(userId: string): Promise<UserWithPermissions | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: userPermissionsInclude,
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      id: user.id,
+      departmentId: user.departmentId,
+      role: { slug: user.role.slug },
+      permissions: await this.resolveEffectivePermissions(user),
+    };
+  }
 }
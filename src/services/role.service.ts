@@ -0,0 +1,433 @@
+import { PermissionScope } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { PERMISSION_SCOPE_ORDER, PermissionService } from './permission.service';
+import { Resource, Action } from '../types';
+import { AppError, ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+
+// The acting administrator, used for privilege checks and the audit trail
+export interface RoleActor {
+  id: string;
+  roleSlug: string;
+  ipAddress?: string;
+}
+
+const roleInclude = {
+  permissions: {
+    include: {
+      permission: true,
+    },
+  },
+  _count: {
+    select: {
+      users: true,
+    },
+  },
+};
+
+const isNarrower = (scope: PermissionScope, than: PermissionScope) =>
+  PERMISSION_SCOPE_ORDER.indexOf(scope) < PERMISSION_SCOPE_ORDER.indexOf(than);
+
+// Derive a slug such as "payroll-officer" from a role name
+const slugify = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export class RoleService {
+  // List all roles with their permissions and number of users
+  static async getAllRoles() {
+    return prisma.role.findMany({
+      include: roleInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  static async getRoleById(roleId: string) {
+    const role = await prisma.role.findUnique({
+      where: { id: roleId },
+      include: roleInclude,
+    });
+
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    return role;
+  }
+
+  // Create a custom role, optionally with initial permissions
+  static async createRole(
+    data: {
+      name: string;
+      slug?: string;
+      description?: string;
+      mfaRequired?: boolean;
+      permissionIds?: string[];
+      scope?: PermissionScope;
+    },
+    actor: RoleActor
+  ) {
+    const roleSlug = data.slug || slugify(data.name);
+
+    const existing = await prisma.role.findFirst({
+      where: { OR: [{ name: data.name }, { slug: roleSlug }] },
+    });
+
+    if (existing) {
+      throw new ConflictError('A role with this name or slug already exists');
+    }
+
+    const permissionIds = data.permissionIds || [];
+    const scope = data.scope || PermissionScope.ALL;
+    await this.assertGrantable(permissionIds, scope, actor);
+
+    const role = await prisma.role.create({
+      data: {
+        name: data.name,
+        slug: roleSlug,
+        description: data.description,
+        mfaRequired: data.mfaRequired,
+        permissions: {
+          create: permissionIds.map((permissionId) => ({ permissionId, scope })),
+        },
+      },
+      include: roleInclude,
+    });
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ROLE_CREATED',
+      entityType: 'role',
+      entityId: role.id,
+      changes: { name: role.name, slug: role.slug, permissionIds, scope },
+      ipAddress: actor.ipAddress,
+    });
+
+    logger.info(`Role ${role.slug} created by ${actor.id}`);
+
+    return role;
+  }
+
+  // Update a role's details. The slug is fixed because code refers to roles by slug.
+  static async updateRole(
+    roleId: string,
+    data: { name?: string; description?: string | null; mfaRequired?: boolean },
+    actor: RoleActor
+  ) {
+    const role = await prisma.role.findUnique({ where: { id: roleId } });
+
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    if (data.name && data.name !== role.name) {
+      const existing = await prisma.role.findUnique({ where: { name: data.name } });
+      if (existing) {
+        throw new ConflictError('A role with this name already exists');
+      }
+    }
+
+    // Relaxing MFA on a system role would weaken built-in protections
+    if (role.isSystem && role.mfaRequired && data.mfaRequired === false) {
+      throw new ForbiddenError('MFA cannot be made optional for a system role');
+    }
+
+    const updated = await prisma.role.update({
+      where: { id: roleId },
+      data,
+      include: roleInclude,
+    });
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ROLE_UPDATED',
+      entityType: 'role',
+      entityId: roleId,
+      changes: {
+        before: { name: role.name, description: role.description, mfaRequired: role.mfaRequired },
+        after: data,
+      },
+      ipAddress: actor.ipAddress,
+    });
+
+    return updated;
+  }
+
+  // Delete a custom role that no user or pending invitation refers to
+  static async deleteRole(roleId: string, actor: RoleActor) {
+    const role = await prisma.role.findUnique({
+      where: { id: roleId },
+      include: {
+        _count: {
+          select: {
+            users: true,
+            userRoles: true,
+            invitations: { where: { status: 'PENDING' } },
+          },
+        },
+      },
+    });
+
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    if (role.isSystem) {
+      throw new ForbiddenError('System roles cannot be deleted');
+    }
+
+    if (role._count.users > 0 || role._count.userRoles > 0 || role._count.invitations > 0) {
+      throw new ConflictError('Role is still assigned to users or pending invitations');
+    }
+
+    await prisma.role.delete({ where: { id: roleId } });
+    await PermissionService.invalidateRolePermissions(roleId);
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ROLE_DELETED',
+      entityType: 'role',
+      entityId: roleId,
+      changes: { name: role.name, slug: role.slug },
+      ipAddress: actor.ipAddress,
+    });
+
+    logger.info(`Role ${role.slug} deleted by ${actor.id}`);
+  }
+
+  // Grant permissions to a role in the given scope, keeping its existing ones
+  static async addPermissions(
+    roleId: string,
+    permissionIds: string[],
+    actor: RoleActor,
+    scope: PermissionScope = PermissionScope.ALL
+  ) {
+    const role = await this.getRoleById(roleId);
+
+    const current = new Set(role.permissions.map((rp) => rp.permissionId));
+    const added = [...new Set(permissionIds)].filter((id) => !current.has(id));
+
+    await this.assertGrantable(added, scope, actor);
+
+    if (added.length > 0) {
+      await prisma.rolePermission.createMany({
+        data: added.map((permissionId) => ({ roleId, permissionId, scope })),
+        skipDuplicates: true,
+      });
+      await this.recordPermissionChange(roleId, { added, removed: [], scope }, actor);
+    }
+
+    return this.getRoleById(roleId);
+  }
+
+  // Replace a role's permissions with exactly the given set. Kept permissions
+  // keep their scope; new ones get the given scope. System roles can gain
+  // permissions but never lose them.
+  static async setPermissions(
+    roleId: string,
+    permissionIds: string[],
+    actor: RoleActor,
+    scope: PermissionScope = PermissionScope.ALL
+  ) {
+    const role = await this.getRoleById(roleId);
+
+    const requested = new Set(permissionIds);
+    const current = new Set(role.permissions.map((rp) => rp.permissionId));
+    const added = [...requested].filter((id) => !current.has(id));
+    const removed = [...current].filter((id) => !requested.has(id));
+
+    if (role.isSystem && removed.length > 0) {
+      throw new ForbiddenError('Permissions cannot be removed from a system role');
+    }
+
+    await this.assertGrantable(added, scope, actor);
+
+    if (added.length === 0 && removed.length === 0) {
+      return role;
+    }
+
+    await prisma.$transaction([
+      prisma.rolePermission.deleteMany({
+        where: { roleId, permissionId: { in: removed } },
+      }),
+      prisma.rolePermission.createMany({
+        data: added.map((permissionId) => ({ roleId, permissionId, scope })),
+        skipDuplicates: true,
+      }),
+    ]);
+    await this.recordPermissionChange(roleId, { added, removed, scope }, actor);
+
+    return this.getRoleById(roleId);
+  }
+
+  // Remove a single permission from a custom role
+  static async removePermission(roleId: string, permissionId: string, actor: RoleActor) {
+    const role = await prisma.role.findUnique({ where: { id: roleId } });
+
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    if (role.isSystem) {
+      throw new ForbiddenError('Permissions cannot be removed from a system role');
+    }
+
+    await PermissionService.removePermissionFromRole(roleId, permissionId);
+    await this.recordPermissionChange(roleId, { added: [], removed: [permissionId] }, actor);
+  }
+
+  // Change whose records a role's permission applies to. A system role's
+  // permissions can be broadened but not narrowed.
+  static async updatePermissionScope(
+    roleId: string,
+    permissionId: string,
+    scope: PermissionScope,
+    actor: RoleActor
+  ) {
+    const rolePermission = await prisma.rolePermission.findUnique({
+      where: { roleId_permissionId: { roleId, permissionId } },
+      include: { role: true },
+    });
+
+    if (!rolePermission) {
+      throw new NotFoundError('Permission not assigned to this role');
+    }
+
+    if (rolePermission.role.isSystem && isNarrower(scope, rolePermission.scope)) {
+      throw new ForbiddenError('Permissions of a system role cannot be narrowed');
+    }
+
+    await this.assertGrantable([permissionId], scope, actor);
+
+    await prisma.rolePermission.update({
+      where: { id: rolePermission.id },
+      data: { scope },
+    });
+    await this.recordPermissionChange(
+      roleId,
+      { permissionId, scope: { before: rolePermission.scope, after: scope } },
+      actor
+    );
+
+    return this.getRoleById(roleId);
+  }
+
+  // Add a permission to the catalogue. It has no effect until granted to a role.
+  static async createPermission(
+    data: { resource: string; action: string; name?: string; description?: string },
+    actor: RoleActor
+  ) {
+    const slug = `${data.resource}:${data.action}`;
+    const name =
+      data.name || `${data.action.charAt(0).toUpperCase() + data.action.slice(1)} ${data.resource}`;
+
+    const existing = await prisma.permission.findFirst({
+      where: { OR: [{ slug }, { name }] },
+    });
+    if (existing) {
+      throw new ConflictError(`Permission ${slug} already exists`);
+    }
+
+    const permission = await PermissionService.createPermission({
+      name,
+      slug,
+      resource: data.resource,
+      action: data.action,
+      description: data.description || `Permission to ${data.action} ${data.resource}`,
+    });
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'PERMISSION_CREATED',
+      entityType: 'permission',
+      entityId: permission.id,
+      changes: { slug },
+      ipAddress: actor.ipAddress,
+    });
+
+    return permission;
+  }
+
+  // Permissions must exist, and an administrator other than a super admin can
+  // only grant permissions they hold themselves, in at least the same scope
+  static async assertGrantable(permissionIds: string[], scope: PermissionScope, actor: RoleActor) {
+    if (permissionIds.length === 0) {
+      return;
+    }
+
+    const permissions = await prisma.permission.findMany({
+      where: { id: { in: permissionIds } },
+    });
+
+    if (permissions.length !== new Set(permissionIds).size) {
+      throw new AppError('One or more permissions do not exist', 400);
+    }
+
+    if (actor.roleSlug === 'super-admin') {
+      return;
+    }
+
+    const user = await PermissionService.loadUserWithPermissions(actor.id);
+    const missing = permissions
+      .filter((p) => {
+        const held = user
+          ? PermissionService.getPermissionScopes(user, p.resource as Resource, p.action as Action)
+          : [];
+        return !held.some((heldScope) => !isNarrower(heldScope, scope));
+      })
+      .map((p) => p.slug);
+    if (missing.length > 0) {
+      throw new ForbiddenError(
+        `You cannot grant permissions beyond your own: ${missing.join(', ')}`
+      );
+    }
+  }
+
+  // A role can only be given to a user by an administrator holding everything
+  // it grants, and super admin only by a super admin
+  static async assertRoleAssignable(roleId: string, actor: RoleActor) {
+    const role = await prisma.role.findUnique({
+      where: { id: roleId },
+      include: { permissions: true },
+    });
+
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    if (role.slug === 'super-admin' && actor.roleSlug !== 'super-admin') {
+      throw new ForbiddenError('Only super admins can assign the super admin role');
+    }
+
+    for (const scope of new Set(role.permissions.map((rp) => rp.scope))) {
+      await this.assertGrantable(
+        role.permissions.filter((rp) => rp.scope === scope).map((rp) => rp.permissionId),
+        scope,
+        actor
+      );
+    }
+
+    return role;
+  }
+
+  private static async recordPermissionChange(
+    roleId: string,
+    changes: Record<string, unknown>,
+    actor: RoleActor
+  ) {
+    await PermissionService.invalidateRolePermissions(roleId);
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'ROLE_PERMISSIONS_CHANGED',
+      entityType: 'role',
+      entityId: roleId,
+      changes,
+      ipAddress: actor.ipAddress,
+    });
+  }
+}
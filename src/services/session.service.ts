@@ -0,0 +1,146 @@
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { NotFoundError } from '../utils/errors';
+import { parseUserAgent } from '../utils/user-agent';
+
+// A session is a refresh token family; its active (unrevoked, unexpired)
+// token is the latest one issued by rotation
+export class SessionService {
+  // List active sessions for a user, marking the one making the request
+  static async listSessions(userId: string, currentSessionId?: string) {
+    const activeTokens = await prisma.refreshToken.findMany({
+      where: {
+        userId,
+        isRevoked: false,
+        expiresAt: {
+          gt: new Date(),
+        },
+      },
+      select: {
+        familyId: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    // Sign-in time is when the first token of each family was issued
+    const families = await prisma.refreshToken.groupBy({
+      by: ['familyId'],
+      where: {
+        familyId: { in: activeTokens.map((token) => token.familyId) },
+      },
+      _min: {
+        createdAt: true,
+      },
+    });
+    const signedInAt = new Map(families.map((f) => [f.familyId, f._min.createdAt]));
+
+    return activeTokens.map((token) => {
+      const device = parseUserAgent(token.userAgent);
+      return {
+        id: token.familyId,
+        device: device.label,
+        browser: device.browser,
+        os: device.os,
+        userAgent: token.userAgent,
+        ipAddress: token.ipAddress,
+        createdAt: signedInAt.get(token.familyId) || token.createdAt,
+        lastActiveAt: token.createdAt,
+        expiresAt: token.expiresAt,
+        isCurrent: token.familyId === currentSessionId,
+      };
+    });
+  }
+
+  // Revoke a single session belonging to the user
+  static async revokeSession(
+    userId: string,
+    sessionId: string,
+    revokedById: string = userId,
+    ipAddress?: string
+  ) {
+    const result = await prisma.refreshToken.updateMany({
+      where: {
+        familyId: sessionId,
+        userId,
+        isRevoked: false,
+      },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await TokenRevocationService.revokeSessionAccessTokens([sessionId]);
+
+    await AuditService.log({
+      userId: revokedById,
+      action: 'SESSION_REVOKED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { sessionId },
+      ipAddress,
+    });
+
+    logger.info(`Session ${sessionId} revoked for user ${userId}`);
+  }
+
+  // Revoke every session of the user except the given one (all when omitted)
+  static async revokeAllSessions(
+    userId: string,
+    exceptSessionId?: string,
+    revokedById: string = userId,
+    ipAddress?: string
+  ) {
+    const where = {
+      userId,
+      isRevoked: false,
+      ...(exceptSessionId && { familyId: { not: exceptSessionId } }),
+    };
+
+    // Access tokens of the kept session must stay valid, so revoke the others
+    // one by one instead of bumping the user's token version
+    if (exceptSessionId) {
+      const sessions = await prisma.refreshToken.findMany({
+        where,
+        select: { familyId: true },
+        distinct: ['familyId'],
+      });
+      await TokenRevocationService.revokeSessionAccessTokens(sessions.map((s) => s.familyId));
+    } else {
+      await TokenRevocationService.revokeAllAccessTokens(userId);
+    }
+
+    const result = await prisma.refreshToken.updateMany({
+      where,
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+      },
+    });
+
+    await AuditService.log({
+      userId: revokedById,
+      action: exceptSessionId ? 'OTHER_SESSIONS_REVOKED' : 'ALL_SESSIONS_REVOKED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { count: result.count },
+      ipAddress,
+    });
+
+    logger.info(`Revoked ${result.count} sessions for user ${userId}`);
+
+    return result.count;
+  }
+}
@@ -0,0 +1,70 @@
+import { SettingType } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+
+export class SettingService {
+  // Get a setting value parsed according to its type, or the default if unset
+  static async get<T>(key: string, defaultValue: T): Promise<T> {
+    const setting = await prisma.setting.findUnique({
+      where: { key },
+    });
+
+    if (!setting) {
+      return defaultValue;
+    }
+
+    try {
+      return this.parseValue(setting.value, setting.type) as T;
+    } catch (error) {
+      logger.error(`Invalid value for setting ${key}:`, error);
+      return defaultValue;
+    }
+  }
+
+  // Get all settings of a category as a key/value map of parsed values
+  static async getCategory(category: string): Promise<Record<string, unknown>> {
+    const settings = await prisma.setting.findMany({
+      where: { category },
+    });
+
+    const values: Record<string, unknown> = {};
+    for (const setting of settings) {
+      try {
+        values[setting.key] = this.parseValue(setting.value, setting.type);
+      } catch (error) {
+        logger.error(`Invalid value for setting ${setting.key}:`, error);
+      }
+    }
+
+    return values;
+  }
+
+  // Create or update a setting
+  static async set(
+    key: string,
+    value: string | number | boolean | object,
+    type: SettingType = SettingType.STRING,
+    category = 'general'
+  ) {
+    const serialized = type === SettingType.JSON ? JSON.stringify(value) : String(value);
+
+    return prisma.setting.upsert({
+      where: { key },
+      update: { value: serialized, type },
+      create: { key, value: serialized, type, category },
+    });
+  }
+
+  private static parseValue(value: string, type: SettingType): unknown {
+    switch (type) {
+      case SettingType.NUMBER:
+        return Number(value);
+      case SettingType.BOOLEAN:
+        return value === 'true';
+      case SettingType.JSON:
+        return JSON.parse(value);
+      default:
+        return value;
+    }
+  }
+}
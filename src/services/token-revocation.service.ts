@@ -0,0 +1,56 @@
+import redis from '../config/redis';
+import env from '../config/env';
+import { JWTPayload } from '../types';
+import { parseDuration } from '../utils/duration';
+
+const tokenVersionKey = (userId: string) => `auth:token-version:${userId}`;
+const revokedSessionKey = (sessionId: string) => `auth:revoked-session:${sessionId}`;
+
+// Access tokens are stateless JWTs, so revoking a session's refresh tokens does
+// not stop them on its own. Two Redis entries let authenticate reject them early:
+// a per-user token version (bumped to invalidate every access token of the user)
+// and a per-session denylist kept for the access token lifetime.
+export class TokenRevocationService {
+  // Current token version for a user (0 until first bumped)
+  static async getTokenVersion(userId: string): Promise<number> {
+    const version = await redis.get(tokenVersionKey(userId));
+    return version ? parseInt(version, 10) : 0;
+  }
+
+  // Invalidate every access token issued to the user so far
+  static async revokeAllAccessTokens(userId: string) {
+    await redis.incr(tokenVersionKey(userId));
+  }
+
+  // Invalidate the access tokens of the given sessions
+  static async revokeSessionAccessTokens(sessionIds: string[]) {
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    // Long enough to outlive both regular and impersonation access tokens
+    const ttlMs = Math.max(
+      parseDuration(env.ACCESS_TOKEN_EXPIRES_IN),
+      parseDuration(env.IMPERSONATION_TOKEN_EXPIRES_IN)
+    );
+    const ttlSeconds = Math.ceil(ttlMs / 1000);
+    const pipeline = redis.pipeline();
+    for (const sessionId of sessionIds) {
+      pipeline.set(revokedSessionKey(sessionId), '1', 'EX', ttlSeconds);
+    }
+    await pipeline.exec();
+  }
+
+  // Check an access token against both revocation entries in one round trip
+  static async isAccessTokenRevoked(payload: JWTPayload): Promise<boolean> {
+    const keys = [tokenVersionKey(payload.userId)];
+    if (payload.sessionId) {
+      keys.push(revokedSessionKey(payload.sessionId));
+    }
+
+    const [version, sessionRevoked] = await redis.mget(...keys);
+    const currentVersion = version ? parseInt(version, 10) : 0;
+
+    return (payload.tokenVersion ?? 0) < currentVersion || Boolean(sessionRevoked);
+  }
+}
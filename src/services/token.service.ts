@@ -0,0 +1,107 @@
+import { UserTokenType } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AppError } from '../utils/errors';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+
+export class TokenService {
+  // Issue a new single-use token. Unless replaceExisting is false, any
+  // outstanding token of the same type is discarded so only the most recent
+  // link works. Returns the raw token.
+  static async issue(
+    userId: string,
+    type: UserTokenType,
+    ttlMs: number,
+    replaceExisting = true
+  ): Promise<string> {
+    if (replaceExisting) {
+      await this.revokeAll(userId, type);
+    }
+
+    const token = generateSecureToken();
+
+    await prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+    });
+
+    return token;
+  }
+
+  // Return the owning user ID of a valid token without consuming it
+  static async verify(token: string, type: UserTokenType): Promise<string> {
+    const storedToken = await prisma.userToken.findFirst({
+      where: {
+        tokenHash: hashToken(token),
+        type,
+        usedAt: null,
+        expiresAt: {
+          gt: new Date(),
+        },
+      },
+    });
+
+    if (!storedToken) {
+      throw new AppError('Invalid or expired token', 400);
+    }
+
+    return storedToken.userId;
+  }
+
+  // Consume a token and return the owning user ID (throws if invalid, used or expired)
+  static async consume(token: string, type: UserTokenType): Promise<string> {
+    const tokenHash = hashToken(token);
+
+    // Mark as used atomically so a token can never be redeemed twice
+    const result = await prisma.userToken.updateMany({
+      where: {
+        tokenHash,
+        type,
+        usedAt: null,
+        expiresAt: {
+          gt: new Date(),
+        },
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      throw new AppError('Invalid or expired token', 400);
+    }
+
+    const storedToken = await prisma.userToken.findUniqueOrThrow({
+      where: { tokenHash },
+    });
+
+    return storedToken.userId;
+  }
+
+  // Discard all unused tokens of a type for a user
+  static async revokeAll(userId: string, type: UserTokenType) {
+    await prisma.userToken.deleteMany({
+      where: {
+        userId,
+        type,
+        usedAt: null,
+      },
+    });
+  }
+
+  // Clean up expired and used tokens
+  static async cleanupExpiredTokens() {
+    const result = await prisma.userToken.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }],
+      },
+    });
+
+    logger.info(`Cleaned up ${result.count} expired user tokens`);
+    return result.count;
+  }
+}
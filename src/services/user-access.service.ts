@@ -0,0 +1,197 @@
+import { PermissionEffect, PermissionScope } from '@prisma/client';
+import prisma from '../config/database';
+import logger from '../config/logger';
+import { AuditService } from './audit.service';
+import { PermissionService } from './permission.service';
+import { RoleActor, RoleService } from './role.service';
+import { UserService } from './user.service';
+import { Action } from '../types';
+import { AppError, ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+
+const roleSelect = {
+  id: true,
+  name: true,
+  slug: true,
+};
+
+export class UserAccessService {
+  // A user's roles, per-user overrides and the resulting effective permissions
+  static async getUserAccess(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: { select: roleSelect },
+        additionalRoles: {
+          select: { role: { select: roleSelect }, assignedById: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+        permissionOverrides: {
+          select: {
+            permission: { select: { id: true, slug: true } },
+            effect: true,
+            scope: true,
+            reason: true,
+            createdById: true,
+            updatedAt: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return {
+      role: user.role,
+      additionalRoles: user.additionalRoles,
+      overrides: user.permissionOverrides,
+      permissions: await PermissionService.getUserPermissions(userId),
+    };
+  }
+
+  // Give a user a role in addition to their primary role
+  static async assignRole(userId: string, roleId: string, actor: RoleActor) {
+    // Changing a user's access is an update of that user
+    const user = await UserService.getManageableUser(userId, Action.UPDATE, actor);
+
+    // The administrator must hold everything the role grants
+    const role = await RoleService.assertRoleAssignable(roleId, actor);
+
+    // Super admin is checked by role slug in several places, so it can only be
+    // a primary role
+    if (role.slug === 'super-admin') {
+      throw new AppError('Super admin can only be assigned as the primary role', 400);
+    }
+
+    if (user.roleId === roleId) {
+      throw new ConflictError("This is already the user's primary role");
+    }
+
+    const existing = await prisma.userRole.findUnique({
+      where: { userId_roleId: { userId, roleId } },
+    });
+
+    if (existing) {
+      throw new ConflictError('User already has this role');
+    }
+
+    await prisma.userRole.create({
+      data: { userId, roleId, assignedById: actor.id },
+    });
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'USER_ROLE_ASSIGNED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { roleId, roleSlug: role.slug },
+      ipAddress: actor.ipAddress,
+    });
+
+    logger.info(`Role ${role.slug} assigned to user ${userId} by ${actor.id}`);
+
+    return this.getUserAccess(userId);
+  }
+
+  // Take away one of a user's additional roles
+  static async removeRole(userId: string, roleId: string, actor: RoleActor) {
+    await UserService.getManageableUser(userId, Action.UPDATE, actor);
+
+    const result = await prisma.userRole.deleteMany({ where: { userId, roleId } });
+
+    if (result.count === 0) {
+      throw new NotFoundError('User does not have this additional role');
+    }
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'USER_ROLE_REMOVED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { roleId },
+      ipAddress: actor.ipAddress,
+    });
+
+    return this.getUserAccess(userId);
+  }
+
+  // Grant or deny one permission for a user, replacing any existing override
+  static async setPermissionOverride(
+    userId: string,
+    permissionId: string,
+    data: { effect: PermissionEffect; scope?: PermissionScope; reason?: string },
+    actor: RoleActor
+  ) {
+    const user = await UserService.getManageableUser(userId, Action.UPDATE, actor);
+    const permission = await prisma.permission.findUnique({ where: { id: permissionId } });
+
+    if (!permission) {
+      throw new NotFoundError('Permission not found');
+    }
+
+    // Overrides do not apply to super admins, who hold every permission
+    if (user.role.slug === 'super-admin') {
+      throw new AppError('Permissions of a super admin cannot be overridden', 400);
+    }
+
+    const scope = data.scope || PermissionScope.ALL;
+    if (data.effect === PermissionEffect.GRANT) {
+      await RoleService.assertGrantable([permissionId], scope, actor);
+    } else if (userId === actor.id) {
+      throw new ForbiddenError('You cannot deny permissions to yourself');
+    }
+
+    const override = await prisma.userPermission.upsert({
+      where: { userId_permissionId: { userId, permissionId } },
+      update: { effect: data.effect, scope, reason: data.reason, createdById: actor.id },
+      create: {
+        userId,
+        permissionId,
+        effect: data.effect,
+        scope,
+        reason: data.reason,
+        createdById: actor.id,
+      },
+    });
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'USER_PERMISSION_OVERRIDE_SET',
+      entityType: 'user',
+      entityId: userId,
+      changes: {
+        permission: permission.slug,
+        effect: override.effect,
+        scope: override.scope,
+        reason: data.reason,
+      },
+      ipAddress: actor.ipAddress,
+    });
+
+    return this.getUserAccess(userId);
+  }
+
+  // Remove a user's grant or deny, so only their roles apply
+  static async removePermissionOverride(userId: string, permissionId: string, actor: RoleActor) {
+    await UserService.getManageableUser(userId, Action.UPDATE, actor);
+
+    const result = await prisma.userPermission.deleteMany({ where: { userId, permissionId } });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Permission override not found');
+    }
+
+    await AuditService.log({
+      userId: actor.id,
+      action: 'USER_PERMISSION_OVERRIDE_REMOVED',
+      entityType: 'user',
+      entityId: userId,
+      changes: { permissionId },
+      ipAddress: actor.ipAddress,
+    });
+
+    return this.getUserAccess(userId);
+  }
+}
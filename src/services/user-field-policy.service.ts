@@ -0,0 +1,30 @@
+import { PermissionService, UserWithPermissions } from './permission.service';
+import { Resource, Action } from '../types';
+import { maskSensitiveUserFields } from '../utils/user';
+
+export class UserFieldPolicyService {
+  // Whether the viewer may see the sensitive fields of the user ownerId: their
+  // own, or those in the scope of user:read_sensitive
+  static async canReadSensitive(viewer: UserWithPermissions, ownerId: string): Promise<boolean> {
+    if (viewer.id === ownerId) {
+      return true;
+    }
+
+    return PermissionService.userHasScopedPermission(
+      viewer,
+      Resource.USER,
+      Action.READ_SENSITIVE,
+      ownerId
+    );
+  }
+
+  // Prepare a user record for the viewer, masking sensitive fields they may
+  // not see. Apply to every user returned by the API.
+  static async protect<T extends { id: string }>(user: T, viewer: UserWithPermissions | null) {
+    if (viewer && (await this.canReadSensitive(viewer, user.id))) {
+      return user;
+    }
+
+    return maskSensitiveUserFields(user);
+  }
+}
@@ -1,15 +1,72 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { AuthService } from './auth.service';
-import { NotFoundError, ConflictError } from '../utils/errors';
+import { AppError, NotFoundError, ConflictError, ForbiddenError } from '../utils/errors';
 import { getPaginationParams, getSkipTake } from '../utils/pagination';
 import { AuditService } from './audit.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PermissionService, UserWithPermissions } from './permission.service';
+import { RoleActor, RoleService } from './role.service';
+import { Resource, Action } from '../types';
+import { UserFieldPolicyService } from './user-field-policy.service';
+import { maskSensitiveUserFields, stripUserSecrets } from '../utils/user';
+
+export interface CreateUserData {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  roleId: string;
+  departmentId?: string;
+  managerId?: string;
+  employeeId?: string;
+  joiningDate?: Date;
+  dateOfBirth?: Date;
+  address?: string;
+  emergencyContact?: string;
+  bankAccountNumber?: string;
+  taxId?: string;
+}
+
+// Fields an administrator can change; optional details can be cleared with null
+export interface AdminUpdateUserData {
+  email?: string;
+  password?: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string | null;
+  roleId?: string;
+  departmentId?: string | null;
+  managerId?: string | null;
+  employeeId?: string | null;
+  joiningDate?: Date | null;
+  dateOfBirth?: Date | null;
+  address?: string | null;
+  emergencyContact?: string | null;
+  bankAccountNumber?: string | null;
+  taxId?: string | null;
+  isActive?: boolean;
+}
+
+// Fields users can change on their own profile
+export interface ProfileUpdateData {
+  firstName?: string;
+  lastName?: string;
+  phone?: string | null;
+  address?: string | null;
+  emergencyContact?: string | null;
+}
 
 export class UserService {
-  static async getAllUsers(query: any, _currentUserId: string) {
+  static async getAllUsers(query: any, currentUser: UserWithPermissions) {
     const { page, limit, sortBy, sortOrder } = getPaginationParams(query);
     const { skip, take } = getSkipTake(page, limit);
 
-    const where: any = {};
+    // Limited to the users within the scope of the caller's user:read
+    const where: any = {
+      AND: [await PermissionService.getScopeFilter(currentUser, Resource.USER, Action.READ)],
+    };
 
     if (query.search) {
       where.OR = [
@@ -71,7 +128,7 @@ export class UserService {
     return { users, total, page, limit };
   }
 
-  static async getUserById(userId: string) {
+  static async getUserById(userId: string, viewer: UserWithPermissions) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
       include: {
@@ -92,13 +149,14 @@ export class UserService {
       throw new NotFoundError('User not found');
     }
 
-    const { password, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+    return UserFieldPolicyService.protect(stripUserSecrets(user), viewer);
   }
 
-  static async createUser(data: any, createdById: string, ipAddress?: string) {
+  static async createUser(data: CreateUserData, actor: RoleActor) {
+    const email = data.email.toLowerCase();
+
     const existingUser = await prisma.user.findUnique({
-      where: { email: data.email },
+      where: { email },
     });
 
     if (existingUser) {
@@ -115,11 +173,17 @@ export class UserService {
       }
     }
 
+    await RoleService.assertRoleAssignable(data.roleId, actor);
+    await this.assertRelationsExist(data);
+
+    await PasswordPolicyService.validate(data.password);
+
     const hashedPassword = await AuthService.hashPassword(data.password);
 
     const user = await prisma.user.create({
       data: {
         ...data,
+        email,
         password: hashedPassword,
       },
       include: {
@@ -128,23 +192,32 @@ export class UserService {
       },
     });
 
+    await PasswordPolicyService.recordHistory(user.id, hashedPassword);
+
     await AuditService.log({
-      userId: createdById,
+      userId: actor.id,
       action: 'CREATE',
       entityType: 'user',
       entityId: user.id,
-      ipAddress,
+      ipAddress: actor.ipAddress,
     });
 
-    const { password, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+    const viewer = await PermissionService.loadUserWithPermissions(actor.id);
+    return UserFieldPolicyService.protect(stripUserSecrets(user), viewer);
   }
 
-  static async updateUser(userId: string, data: any, updatedById: string, ipAddress?: string) {
-    const user = await prisma.user.findUnique({ where: { id: userId } });
+  // Update any of a user's details (admin). The actor's user:update scope must
+  // cover the user.
+  static async updateUser(userId: string, data: AdminUpdateUserData, actor: RoleActor) {
+    const user = await this.getManageableUser(userId, Action.UPDATE, actor);
 
-    if (!user) {
-      throw new NotFoundError('User not found');
+    // Administrators cannot raise their own access or reactivate themselves
+    if (userId === actor.id && (data.roleId !== undefined || data.isActive !== undefined)) {
+      throw new ForbiddenError('You cannot change your own role or status');
+    }
+
+    if (data.email) {
+      data.email = data.email.toLowerCase();
     }
 
     if (data.email && data.email !== user.email) {
@@ -157,48 +230,161 @@ export class UserService {
       }
     }
 
+    if (data.employeeId && data.employeeId !== user.employeeId) {
+      const existingEmployee = await prisma.user.findUnique({
+        where: { employeeId: data.employeeId },
+      });
+
+      if (existingEmployee) {
+        throw new ConflictError('Employee ID already exists');
+      }
+    }
+
+    if (data.roleId && data.roleId !== user.roleId) {
+      await RoleService.assertRoleAssignable(data.roleId, actor);
+    }
+
+    if (data.managerId === userId) {
+      throw new AppError('A user cannot be their own manager', 400);
+    }
+
+    await this.assertRelationsExist(data);
+
+    const changes: Prisma.UserUncheckedUpdateInput = { ...data };
     if (data.password) {
-      data.password = await AuthService.hashPassword(data.password);
-      data.passwordChangedAt = new Date();
+      await PasswordPolicyService.validate(data.password, userId);
+      changes.password = await AuthService.hashPassword(data.password);
+      changes.passwordChangedAt = new Date();
     }
 
     const updated = await prisma.user.update({
       where: { id: userId },
-      data,
+      data: changes,
       include: {
         role: true,
         department: true,
       },
     });
 
+    if (data.password) {
+      await PasswordPolicyService.recordHistory(userId, changes.password as string);
+    }
+
+    // Deactivation and password changes take effect immediately
+    if (data.password) {
+      await AuthService.revokeCredentials(userId);
+    } else if (data.isActive === false && user.isActive) {
+      await AuthService.logout(userId);
+    }
+
     await AuditService.log({
-      userId: updatedById,
+      userId: actor.id,
       action: 'UPDATE',
       entityType: 'user',
       entityId: userId,
-      changes: data,
-      ipAddress,
+      // Never store credentials or sensitive values in the audit trail
+      changes: {
+        ...maskSensitiveUserFields(stripUserSecrets(data)),
+        ...(data.password && { passwordChanged: true }),
+      },
+      ipAddress: actor.ipAddress,
     });
 
-    const { password, ...userWithoutPassword } = updated;
-    return userWithoutPassword;
+    const viewer = await PermissionService.loadUserWithPermissions(actor.id);
+    return UserFieldPolicyService.protect(stripUserSecrets(updated), viewer);
   }
 
-  static async deleteUser(userId: string, deletedById: string, ipAddress?: string) {
-    const user = await prisma.user.findUnique({ where: { id: userId } });
+  // Update the caller's own profile. Only personal contact details can be
+  // changed this way; everything else goes through HR.
+  static async updateProfile(userId: string, data: ProfileUpdateData, ipAddress?: string) {
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data,
+      include: {
+        role: true,
+        department: true,
+      },
+    });
 
-    if (!user) {
-      throw new NotFoundError('User not found');
+    await AuditService.log({
+      userId,
+      action: 'PROFILE_UPDATED',
+      entityType: 'user',
+      entityId: userId,
+      changes: maskSensitiveUserFields(data),
+      ipAddress,
+    });
+
+    return stripUserSecrets(updated);
+  }
+
+  static async deleteUser(userId: string, actor: RoleActor) {
+    if (userId === actor.id) {
+      throw new ForbiddenError('You cannot delete your own account');
     }
 
-    await prisma.user.delete({ where: { id: userId } });
+    await this.getManageableUser(userId, Action.DELETE, actor);
+
+    try {
+      await prisma.user.delete({ where: { id: userId } });
+    } catch (error) {
+      // Leave requests, payrolls and other records still refer to the user
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+        throw new ConflictError('User has related records; deactivate the account instead');
+      }
+      throw error;
+    }
 
     await AuditService.log({
-      userId: deletedById,
+      userId: actor.id,
       action: 'DELETE',
       entityType: 'user',
       entityId: userId,
-      ipAddress,
+      ipAddress: actor.ipAddress,
     });
   }
+
+  // Load a user the actor may act on: within the scope of their permission,
+  // and a super admin only for another super admin
+  static async getManageableUser(userId: string, action: Action, actor: RoleActor) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await PermissionService.requirePermission(actor.id, Resource.USER, action, userId);
+
+    if (user.role.slug === 'super-admin' && actor.roleSlug !== 'super-admin') {
+      throw new ForbiddenError('Only super admins can manage super admins');
+    }
+
+    return user;
+  }
+
+  private static async assertRelationsExist(data: {
+    departmentId?: string | null;
+    managerId?: string | null;
+  }) {
+    if (data.departmentId) {
+      const department = await prisma.department.findUnique({
+        where: { id: data.departmentId },
+      });
+
+      if (!department) {
+        throw new NotFoundError('Department not found');
+      }
+    }
+
+    if (data.managerId) {
+      const manager = await prisma.user.findUnique({ where: { id: data.managerId } });
+
+      if (!manager) {
+        throw new NotFoundError('Manager not found');
+      }
+    }
+  }
 }
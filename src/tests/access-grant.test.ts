@@ -0,0 +1,114 @@
+import argon2 from 'argon2';
+import request from 'supertest';
+import { PermissionEffect } from '@prisma/client';
+import app from '../app';
+import { prisma } from './setup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const login = async (email: string) => {
+  const res = await request(app).post('/api/auth/login').send({ email, password: 'Admin@123' });
+  return res.body.data.accessToken as string;
+};
+
+describe('Access grants', () => {
+  const roleAdminEmail = 'grants.admin@example.com';
+  let adminToken: string;
+  let employeeId: string;
+  let payrollReadId: string;
+
+  const createGrant = (token: string, data: Record<string, unknown> = {}) =>
+    request(app)
+      .post('/api/access-grants')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        userId: employeeId,
+        permissionId: payrollReadId,
+        reason: 'Covering payroll during month end',
+        expiresAt: new Date(Date.now() + DAY_MS).toISOString(),
+        ...data,
+      });
+
+  const isAllowed = async () => {
+    const res = await request(app)
+      .get('/api/permissions/explain')
+      .query({ userId: employeeId, resource: 'payroll', action: 'read' })
+      .set('Authorization', `Bearer ${adminToken}`);
+    return res.body.data.allowed as boolean;
+  };
+
+  beforeAll(async () => {
+    adminToken = await login('admin@hrmanagement.com');
+
+    const [employee, employeeRole, payrollRead, roleManage] = await Promise.all([
+      prisma.user.findUniqueOrThrow({ where: { email: 'employee@hrmanagement.com' } }),
+      prisma.role.findUniqueOrThrow({ where: { slug: 'employee' } }),
+      prisma.permission.findUniqueOrThrow({ where: { slug: 'payroll:read' } }),
+      prisma.permission.findUniqueOrThrow({ where: { slug: 'role:manage' } }),
+    ]);
+    employeeId = employee.id;
+    payrollReadId = payrollRead.id;
+
+    // May manage roles and grant payroll:read, but not update users
+    await prisma.user.create({
+      data: {
+        email: roleAdminEmail,
+        password: await argon2.hash('Admin@123'),
+        firstName: 'Grants',
+        lastName: 'Admin',
+        isEmailVerified: true,
+        roleId: employeeRole.id,
+        permissionOverrides: {
+          create: [
+            { permissionId: roleManage.id, effect: PermissionEffect.GRANT },
+            { permissionId: payrollRead.id, effect: PermissionEffect.GRANT },
+          ],
+        },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.accessGrant.deleteMany({ where: { userId: employeeId } });
+    await prisma.user.deleteMany({ where: { email: roleAdminEmail } });
+  });
+
+  it('should not grant access to a user outside the caller user:update scope', async () => {
+    const res = await createGrant(await login(roleAdminEmail));
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should apply a grant naming an approver only once they approve it', async () => {
+    const hr = await prisma.user.findUniqueOrThrow({ where: { email: 'hr@hrmanagement.com' } });
+
+    const created = await createGrant(adminToken, { approverId: hr.id });
+    expect(created.status).toBe(201);
+    expect(await isAllowed()).toBe(false);
+
+    const approve = (token: string) =>
+      request(app)
+        .post(`/api/access-grants/${created.body.data.id}/approve`)
+        .set('Authorization', `Bearer ${token}`);
+
+    // Only the named approver can approve, not the creator or the holder
+    expect((await approve(adminToken)).status).toBe(403);
+    expect((await approve(await login('employee@hrmanagement.com'))).status).toBe(403);
+
+    const res = await approve(await login('hr@hrmanagement.com'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.approvedAt).toBeTruthy();
+    expect(await isAllowed()).toBe(true);
+  });
+
+  it('should not let the creator name themselves as approver', async () => {
+    const admin = await prisma.user.findUniqueOrThrow({
+      where: { email: 'admin@hrmanagement.com' },
+    });
+
+    const res = await createGrant(adminToken, { approverId: admin.id });
+
+    expect(res.status).toBe(400);
+  });
+});
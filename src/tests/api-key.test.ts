@@ -0,0 +1,136 @@
+import argon2 from 'argon2';
+import request from 'supertest';
+import app from '../app';
+import { prisma } from './setup';
+
+const login = async (email: string) => {
+  const res = await request(app).post('/api/auth/login').send({ email, password: 'Admin@123' });
+  return res.body.data.accessToken as string;
+};
+
+describe('API keys', () => {
+  let hrToken: string;
+
+  const createKey = (token: string, scopes: string[], path = '/api/auth/api-keys') =>
+    request(app)
+      .post(path)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Test key', scopes, expiresInDays: 1 });
+
+  beforeAll(async () => {
+    hrToken = await login('hr@hrmanagement.com');
+  });
+
+  describe('authentication', () => {
+    let key: string;
+
+    beforeAll(async () => {
+      const res = await createKey(hrToken, ['user:read']);
+      key = res.body.data.key;
+    });
+
+    it('should authenticate with the key in X-API-Key or as a bearer token', async () => {
+      expect(key).toMatch(/^hrk_/);
+
+      const headerRes = await request(app).get('/api/users').set('X-API-Key', key);
+      const bearerRes = await request(app).get('/api/users').set('Authorization', `Bearer ${key}`);
+
+      expect(headerRes.status).toBe(200);
+      expect(bearerRes.status).toBe(200);
+    });
+
+    it('should reject actions outside the key scopes that the user could perform', async () => {
+      const res = await request(app).post('/api/users').set('X-API-Key', key).send({
+        email: 'scoped.key@example.com',
+        password: 'Scoped@Key123',
+        firstName: 'Scoped',
+        lastName: 'Key',
+      });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should not let a key manage API keys', async () => {
+      const res = await request(app).get('/api/auth/api-keys').set('X-API-Key', key);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should reject a revoked key', async () => {
+      const listRes = await request(app)
+        .get('/api/auth/api-keys')
+        .set('Authorization', `Bearer ${hrToken}`);
+      const { id } = listRes.body.data.find((k: { prefix: string }) => key.startsWith(k.prefix));
+
+      await request(app)
+        .delete(`/api/auth/api-keys/${id}`)
+        .set('Authorization', `Bearer ${hrToken}`);
+
+      const res = await request(app).get('/api/users').set('X-API-Key', key);
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('scopes', () => {
+    it('should reject scopes the user does not hold', async () => {
+      const token = await login('employee@hrmanagement.com');
+
+      const res = await createKey(token, ['payroll:read']);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/users/:userId/api-keys', () => {
+    it('should not let a non-super-admin create a key for a super admin', async () => {
+      const admin = await prisma.user.findUnique({ where: { email: 'admin@hrmanagement.com' } });
+
+      const res = await createKey(hrToken, ['user:read'], `/api/users/${admin!.id}/api-keys`);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should only grant scopes the target user holds', async () => {
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+      });
+      const path = `/api/users/${employee!.id}/api-keys`;
+
+      expect((await createKey(hrToken, ['payroll:read'], path)).status).toBe(403);
+      expect((await createKey(hrToken, ['leave:create'], path)).status).toBe(201);
+    });
+  });
+
+  describe('password reset by an admin', () => {
+    const email = 'key.reset@example.com';
+
+    afterAll(async () => {
+      await prisma.user.deleteMany({ where: { email } });
+    });
+
+    it("should revoke the user's API keys", async () => {
+      const role = await prisma.role.findUniqueOrThrow({ where: { slug: 'employee' } });
+      const user = await prisma.user.create({
+        data: {
+          email,
+          password: await argon2.hash('Admin@123'),
+          firstName: 'Key',
+          lastName: 'Reset',
+          isEmailVerified: true,
+          roleId: role.id,
+        },
+      });
+      const created = await createKey(hrToken, ['leave:create'], `/api/users/${user.id}/api-keys`);
+      const getMe = () => request(app).get('/api/auth/me').set('X-API-Key', created.body.data.key);
+      expect((await getMe()).status).toBe(200);
+
+      const res = await request(app)
+        .patch(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${hrToken}`)
+        .send({ password: 'Reset@Pass123' });
+      expect(res.status).toBe(200);
+
+      expect((await getMe()).status).toBe(401);
+    });
+  });
+});
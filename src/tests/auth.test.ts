@@ -1,7 +1,21 @@
+import crypto from 'crypto';
+import argon2 from 'argon2';
+import jwt from 'jsonwebtoken';
 import request from 'supertest';
 import app from '../app';
+import env from '../config/env';
+import redis from '../config/redis';
+import { LoginLockoutService } from '../services/login-lockout.service';
+import { hashToken } from '../utils/crypto';
 import { prisma } from './setup';
 
+// Refresh token set by a login or refresh response
+const getRefreshToken = (res: request.Response) =>
+  /refreshToken=([^;]+)/.exec(String(res.headers['set-cookie']))![1];
+
+const refresh = (refreshToken: string) =>
+  request(app).post('/api/auth/refresh').send({ refreshToken });
+
 describe('Auth Endpoints', () => {
   describe('POST /api/auth/register', () => {
     it('should register a new user', async () => {
@@ -105,4 +119,482 @@ describe('Auth Endpoints', () => {
       expect(res.body.success).toBe(false);
     });
   });
+
+  describe('POST /api/auth/refresh', () => {
+    const login = () =>
+      request(app)
+        .post('/api/auth/login')
+        .send({ email: 'employee@hrmanagement.com', password: 'Admin@123' });
+
+    it('should revoke the whole family when a rotated token is replayed', async () => {
+      const first = getRefreshToken(await login());
+
+      const rotatedRes = await refresh(first);
+      expect(rotatedRes.status).toBe(200);
+      const second = getRefreshToken(rotatedRes);
+
+      const replayRes = await refresh(first);
+      expect(replayRes.status).toBe(401);
+
+      // The legitimate successor is revoked along with the replayed token
+      const res = await refresh(second);
+      expect(res.status).toBe(401);
+
+      const { sessionId } = jwt.decode(first) as { sessionId: string };
+      const active = await prisma.refreshToken.count({
+        where: { familyId: sessionId, isRevoked: false },
+      });
+      expect(active).toBe(0);
+    });
+
+    it('should let only one of two concurrent refreshes with the same token succeed', async () => {
+      const refreshToken = getRefreshToken(await login());
+
+      const results = await Promise.all([refresh(refreshToken), refresh(refreshToken)]);
+
+      expect(results.map((res) => res.status).sort()).toEqual([200, 401]);
+    });
+
+    it('should find the stored token by its jti', async () => {
+      const refreshToken = getRefreshToken(await login());
+      const { jti } = jwt.decode(refreshToken) as { jti: string };
+
+      const stored = await prisma.refreshToken.findUnique({ where: { id: jti } });
+      expect(stored!.token).toBe(hashToken(refreshToken));
+
+      const res = await refresh(refreshToken);
+      expect(res.status).toBe(200);
+
+      const rotated = await prisma.refreshToken.findUnique({ where: { id: jti } });
+      expect(rotated!.isRevoked).toBe(true);
+    });
+
+    it('should accept a legacy token without a jti and move it to the new format', async () => {
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+      });
+      const sessionId = crypto.randomUUID();
+
+      // Issued before token IDs were embedded, stored as an argon2 hash
+      const legacyToken = jwt.sign(
+        {
+          userId: employee!.id,
+          email: employee!.email,
+          roleId: employee!.roleId,
+          sessionId,
+        },
+        env.JWT_REFRESH_SECRET,
+        { expiresIn: '1h' }
+      );
+      const legacy = await prisma.refreshToken.create({
+        data: {
+          token: await argon2.hash(legacyToken),
+          familyId: sessionId,
+          userId: employee!.id,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      });
+
+      const res = await refresh(legacyToken);
+      expect(res.status).toBe(200);
+
+      const next = getRefreshToken(res);
+      const { jti, sessionId: nextSessionId } = jwt.decode(next) as {
+        jti: string;
+        sessionId: string;
+      };
+      expect(jti).toBeDefined();
+      expect(nextSessionId).toBe(sessionId);
+
+      const revoked = await prisma.refreshToken.findUnique({ where: { id: legacy.id } });
+      expect(revoked!.isRevoked).toBe(true);
+
+      // The legacy token cannot be used again
+      expect((await refresh(legacyToken)).status).toBe(401);
+    });
+  });
+
+  describe('Login lockout', () => {
+    const email = 'hr@hrmanagement.com';
+
+    const failLogin = () =>
+      request(app).post('/api/auth/login').send({ email, password: 'wrongpassword' });
+
+    // Lock the account with the configured number of failed attempts
+    const lockAccount = async () => {
+      for (let i = 0; i < env.LOGIN_MAX_FAILED_ATTEMPTS_ACCOUNT; i++) {
+        await failLogin();
+      }
+    };
+
+    afterAll(async () => {
+      // Failures from this suite also count against the shared test IP
+      const keys = await redis.keys('login:*');
+      if (keys.length > 0) {
+        await redis.del(...keys);
+      }
+    });
+
+    it('should lock the account after repeated failures until an admin unlocks it', async () => {
+      await lockAccount();
+
+      // Even the correct password is refused while locked
+      const lockedRes = await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'Admin@123' });
+      expect(lockedRes.status).toBe(429);
+
+      const adminRes = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'admin@hrmanagement.com', password: 'Admin@123' });
+      const hr = await prisma.user.findUnique({ where: { email } });
+
+      const unlockRes = await request(app)
+        .post(`/api/users/${hr!.id}/unlock`)
+        .set('Authorization', `Bearer ${adminRes.body.data.accessToken}`);
+      expect(unlockRes.status).toBe(200);
+      expect(unlockRes.body.data.wasLocked).toBe(true);
+
+      const res = await request(app).post('/api/auth/login').send({ email, password: 'Admin@123' });
+      expect(res.status).toBe(200);
+    });
+
+    it('should not let users without user:manage unlock themselves', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'employee@hrmanagement.com', password: 'Admin@123' });
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+      });
+
+      const res = await request(app)
+        .post(`/api/users/${employee!.id}/unlock`)
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should double the lockout duration for a repeated lockout', async () => {
+      await lockAccount();
+      const firstTtl = await redis.pttl(`login:lock:account:${email}`);
+
+      // Let the first lockout expire, then trigger another
+      await redis.del(`login:lock:account:${email}`);
+      await lockAccount();
+      const secondTtl = await redis.pttl(`login:lock:account:${email}`);
+
+      expect(firstTtl).toBeLessThanOrEqual(env.LOGIN_LOCKOUT_DURATION_MS);
+      expect(secondTtl).toBeGreaterThan(env.LOGIN_LOCKOUT_DURATION_MS);
+
+      const hr = await prisma.user.findUnique({ where: { email } });
+      await LoginLockoutService.unlockUser(hr!.id, hr!.id);
+    });
+
+    it('should lock an IP that fails across many accounts', async () => {
+      const ipAddress = '203.0.113.10';
+
+      for (let i = 0; i < env.LOGIN_MAX_FAILED_ATTEMPTS_IP; i++) {
+        await LoginLockoutService.recordFailure(`unknown${i}@example.com`, ipAddress);
+      }
+
+      // Accounts without failures of their own are locked from that IP only
+      await expect(
+        LoginLockoutService.assertNotLocked('another@example.com', ipAddress)
+      ).rejects.toMatchObject({ statusCode: 429 });
+      await expect(
+        LoginLockoutService.assertNotLocked('another@example.com', '203.0.113.11')
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should respond identically for registered and unknown emails', async () => {
+      const known = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'employee@hrmanagement.com' });
+
+      const unknown = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' });
+
+      expect(known.status).toBe(200);
+      expect(unknown.status).toBe(200);
+      expect(unknown.body.message).toBe(known.body.message);
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    it('should fail with an invalid token', async () => {
+      const res = await request(app)
+        .post('/api/auth/reset-password')
+        .send({
+          token: 'invalid-token',
+          newPassword: 'NewPass@123',
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.success).toBe(false);
+    });
+  });
+
+  describe('POST /api/auth/secure-account', () => {
+    it('should fail with an invalid token', async () => {
+      const res = await request(app)
+        .post('/api/auth/secure-account')
+        .send({ token: 'invalid-token' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.success).toBe(false);
+    });
+  });
+
+  describe('POST /api/auth/verify-email', () => {
+    it('should fail with an invalid token', async () => {
+      const res = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'invalid-token' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.success).toBe(false);
+    });
+  });
+
+  describe('POST /api/auth/mfa/verify', () => {
+    it('should fail with an invalid MFA token', async () => {
+      const res = await request(app)
+        .post('/api/auth/mfa/verify')
+        .send({ mfaToken: 'invalid-token', code: '123456' });
+
+      expect(res.status).toBe(401);
+      expect(res.body.success).toBe(false);
+    });
+  });
+
+  describe('GET /api/auth/sessions', () => {
+    it('should list active sessions and mark the current one', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'admin@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const token = loginRes.body.data.accessToken;
+
+      const res = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(200);
+      expect(Array.isArray(res.body.data)).toBe(true);
+      expect(res.body.data.filter((s: any) => s.isCurrent)).toHaveLength(1);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the access token immediately', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'admin@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const token = loginRes.body.data.accessToken;
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${token}`)
+        .set('Cookie', loginRes.headers['set-cookie']);
+
+      const res = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/impersonation', () => {
+    it('should act as the user, block password changes and end on stop', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'admin@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+      });
+
+      const startRes = await request(app)
+        .post('/api/auth/impersonation')
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`)
+        .send({ userId: employee!.id, reason: 'Support ticket' });
+
+      expect(startRes.status).toBe(200);
+
+      const token = startRes.body.data.accessToken;
+
+      const meRes = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(meRes.body.data).toHaveProperty('email', 'employee@hrmanagement.com');
+
+      const passwordRes = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ currentPassword: 'Employee@123', newPassword: 'Changed@12345' });
+
+      expect(passwordRes.status).toBe(403);
+
+      await request(app)
+        .post('/api/auth/impersonation/stop')
+        .set('Authorization', `Bearer ${token}`);
+
+      const res = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/invitations/accept', () => {
+    it('should fail with an invalid token', async () => {
+      const res = await request(app)
+        .post('/api/invitations/accept')
+        .send({
+          token: 'invalid-token',
+          password: 'Invited@12345',
+          firstName: 'New',
+          lastName: 'Hire',
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.success).toBe(false);
+    });
+  });
+
+  describe('DELETE /api/roles/:id', () => {
+    it('should not delete a system role', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'admin@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const role = await prisma.role.findUnique({ where: { slug: 'employee' } });
+
+      const res = await request(app)
+        .delete(`/api/roles/${role!.id}`)
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/users/:userId/access', () => {
+    it('should list the effective permissions with their sources', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'employee@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+      });
+
+      const res = await request(app)
+        .get(`/api/users/${employee!.id}/access`)
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.permissions.length).toBeGreaterThan(0);
+      expect(res.body.data.permissions[0].sources[0]).toHaveProperty('type', 'role');
+    });
+  });
+
+  describe('POST /api/access-grants', () => {
+    it('should reject grants lasting longer than 90 days', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'admin@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+      });
+      const permission = await prisma.permission.findFirst();
+
+      const res = await request(app)
+        .post('/api/access-grants')
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`)
+        .send({
+          userId: employee!.id,
+          permissionId: permission!.id,
+          reason: 'Covering payroll during month end',
+          expiresAt: new Date(Date.now() + 91 * 24 * 60 * 60 * 1000).toISOString(),
+        });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/permissions/explain', () => {
+    it('should explain which role gives a permission', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'admin@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+      });
+
+      const res = await request(app)
+        .get('/api/permissions/explain')
+        .query({ userId: employee!.id, resource: 'leave', action: 'create' })
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.allowed).toBe(true);
+      expect(res.body.data.sources[0]).toHaveProperty('roleSlug', 'employee');
+    });
+  });
+
+  describe('PATCH /api/users/me', () => {
+    it('should not let users change their own role', async () => {
+      const loginRes = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: 'employee@hrmanagement.com',
+          password: 'Admin@123',
+        });
+
+      const adminRole = await prisma.role.findUnique({ where: { slug: 'super-admin' } });
+
+      const res = await request(app)
+        .patch('/api/users/me')
+        .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`)
+        .send({ roleId: adminRole!.id });
+
+      expect(res.status).toBe(422);
+
+      const employee = await prisma.user.findUnique({
+        where: { email: 'employee@hrmanagement.com' },
+        include: { role: true },
+      });
+      expect(employee!.role.slug).toBe('employee');
+    });
+  });
 });
@@ -0,0 +1,72 @@
+import request from 'supertest';
+import app from '../app';
+import { prisma } from './setup';
+
+const login = async (email: string) => {
+  const res = await request(app).post('/api/auth/login').send({ email, password: 'Admin@123' });
+  return res.body.data.accessToken as string;
+};
+
+describe('Invitations', () => {
+  const emails = ['invite.employee@example.com', 'invite.escalation@example.com'];
+  let hrToken: string;
+  let adminToken: string;
+  let employeeRoleId: string;
+  let roleManagerRoleId: string;
+
+  const invite = (token: string, email: string, roleId: string) =>
+    request(app)
+      .post('/api/invitations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ email, roleId });
+
+  beforeAll(async () => {
+    [hrToken, adminToken] = await Promise.all([
+      login('hr@hrmanagement.com'),
+      login('admin@hrmanagement.com'),
+    ]);
+
+    // A custom role granting role:manage, which HR managers do not hold
+    const [employeeRole, roleManage] = await Promise.all([
+      prisma.role.findUniqueOrThrow({ where: { slug: 'employee' } }),
+      prisma.permission.findUniqueOrThrow({ where: { slug: 'role:manage' } }),
+    ]);
+    const roleManagerRole = await prisma.role.create({
+      data: {
+        name: 'Invitation Role Manager',
+        slug: 'invitation-role-manager',
+        permissions: { create: { permissionId: roleManage.id } },
+      },
+    });
+    employeeRoleId = employeeRole.id;
+    roleManagerRoleId = roleManagerRole.id;
+  });
+
+  afterAll(async () => {
+    await prisma.invitation.deleteMany({ where: { email: { in: emails } } });
+    await prisma.role.deleteMany({ where: { id: roleManagerRoleId } });
+  });
+
+  it('should invite into a role the caller could assign', async () => {
+    const res = await invite(hrToken, emails[0], employeeRoleId);
+
+    expect(res.status).toBe(201);
+  });
+
+  it('should not invite into a role granting permissions the caller lacks', async () => {
+    const res = await invite(hrToken, emails[1], roleManagerRoleId);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should not let the caller resend an invitation into such a role', async () => {
+    const created = await invite(adminToken, emails[1], roleManagerRoleId);
+    expect(created.status).toBe(201);
+
+    const res = await request(app)
+      .post(`/api/invitations/${created.body.data.id}/resend`)
+      .set('Authorization', `Bearer ${hrToken}`);
+
+    expect(res.status).toBe(403);
+  });
+});
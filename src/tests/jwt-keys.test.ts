@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import type { Express } from 'express';
+import './setup';
+
+// Keys are loaded when the app starts, so write them and configure RS256
+// before loading it: key-2 signs, key-1 is retired (public key only)
+const keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+const retiredKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const activeKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+fs.writeFileSync(
+  path.join(keysDir, 'key-1.pem'),
+  retiredKey.publicKey.export({ type: 'spki', format: 'pem' })
+);
+fs.writeFileSync(
+  path.join(keysDir, 'key-2.pem'),
+  activeKey.privateKey.export({ type: 'pkcs8', format: 'pem' })
+);
+
+process.env.JWT_ACCESS_ALGORITHM = 'RS256';
+process.env.JWT_KEYS_DIR = keysDir;
+process.env.JWT_ACCESS_KEY_ID = 'key-2';
+process.env.JWT_ACCEPT_HS256 = 'false';
+
+describe('RS256 access tokens', () => {
+  let app: Express;
+  let accessToken: string;
+
+  // Sign the claims of the login's access token with another key
+  const resign = (key: crypto.KeyObject | string, options: jwt.SignOptions) => {
+    const { iat: _iat, exp: _exp, ...claims } = jwt.decode(accessToken) as jwt.JwtPayload;
+    return jwt.sign(claims, key, { expiresIn: '5m', ...options });
+  };
+
+  const getMe = (token: string) =>
+    request(app).get('/api/auth/me').set('Authorization', `Bearer ${token}`);
+
+  beforeAll(async () => {
+    app = (await import('../app')).default;
+
+    const loginRes = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@hrmanagement.com', password: 'Admin@123' });
+    accessToken = loginRes.body.data.accessToken;
+  });
+
+  afterAll(() => {
+    fs.rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  it('should sign access tokens with the active key and its kid', async () => {
+    const header = jwt.decode(accessToken, { complete: true })!.header;
+
+    expect(header).toMatchObject({ alg: 'RS256', kid: 'key-2' });
+    expect((await getMe(accessToken)).status).toBe(200);
+  });
+
+  it('should publish every public key as JWKS', async () => {
+    const res = await request(app).get('/.well-known/jwks.json');
+
+    expect(res.status).toBe(200);
+    expect(res.body.keys.map((key: { kid: string }) => key.kid).sort()).toEqual(['key-1', 'key-2']);
+    for (const key of res.body.keys) {
+      expect(key).toMatchObject({ kty: 'RSA', use: 'sig', alg: 'RS256' });
+      expect(key).not.toHaveProperty('d');
+    }
+
+    // Third parties can verify access tokens with the published key
+    const jwk = res.body.keys.find((key: { kid: string }) => key.kid === 'key-2');
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    expect(() => jwt.verify(accessToken, publicKey, { algorithms: ['RS256'] })).not.toThrow();
+  });
+
+  it('should still accept tokens signed with a retired key', async () => {
+    const token = resign(retiredKey.privateKey, { algorithm: 'RS256', keyid: 'key-1' });
+
+    expect((await getMe(token)).status).toBe(200);
+  });
+
+  it('should reject tokens with an unknown kid', async () => {
+    const token = resign(retiredKey.privateKey, { algorithm: 'RS256', keyid: 'key-3' });
+
+    expect((await getMe(token)).status).toBe(401);
+  });
+
+  it('should reject a token whose kid does not match its signing key', async () => {
+    const token = resign(retiredKey.privateKey, { algorithm: 'RS256', keyid: 'key-2' });
+
+    expect((await getMe(token)).status).toBe(401);
+  });
+
+  it('should reject HS256 tokens once they are no longer accepted', async () => {
+    const token = resign(process.env.JWT_ACCESS_SECRET!, { algorithm: 'HS256' });
+
+    expect((await getMe(token)).status).toBe(401);
+  });
+});
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { Server } from 'http';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import app from '../app';
+import env from '../config/env';
+import { prisma } from './setup';
+
+// Minimal OpenID Connect provider: discovery, JWKS and a token endpoint that
+// checks the PKCE verifier and issues an ID token for a registered code
+const ISSUER = 'http://localhost:4457';
+const CLIENT_ID = 'hr-backend';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const codes = new Map<
+  string,
+  { challenge: string; nonce: string; email: string; amr?: string[] }
+>();
+
+const provider = express();
+provider.use(express.urlencoded({ extended: false }));
+
+provider.get('/.well-known/openid-configuration', (_req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+  });
+});
+
+provider.get('/jwks', (_req, res) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' }],
+  });
+});
+
+provider.post('/token', (req, res) => {
+  const grant = codes.get(req.body.code);
+  const challenge = crypto
+    .createHash('sha256')
+    .update(req.body.code_verifier || '')
+    .digest('base64url');
+
+  if (!grant || grant.challenge !== challenge) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  codes.delete(req.body.code);
+
+  const idToken = jwt.sign(
+    { email: grant.email, email_verified: true, nonce: grant.nonce, amr: grant.amr },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: 'test-key',
+      issuer: ISSUER,
+      audience: CLIENT_ID,
+      subject: `sub-${grant.email}`,
+      expiresIn: '5m',
+    }
+  );
+
+  return res.json({
+    access_token: 'provider-access-token',
+    token_type: 'Bearer',
+    id_token: idToken,
+  });
+});
+
+// Start a login and register an authorization code for it
+const startLogin = async (email: string, amr?: string[]) => {
+  const res = await request(app).get('/api/auth/oidc/login');
+  const authorizeUrl = new URL(res.headers.location);
+  const code = crypto.randomBytes(8).toString('hex');
+
+  codes.set(code, {
+    challenge: authorizeUrl.searchParams.get('code_challenge')!,
+    nonce: authorizeUrl.searchParams.get('nonce')!,
+    email,
+    amr,
+  });
+
+  return { res, code, state: authorizeUrl.searchParams.get('state')! };
+};
+
+describe('OIDC Single Sign-On', () => {
+  let server: Server;
+
+  beforeAll((done) => {
+    Object.assign(env, {
+      OIDC_ISSUER: ISSUER,
+      OIDC_CLIENT_ID: CLIENT_ID,
+      OIDC_REDIRECT_URI: 'http://localhost:5000/api/auth/oidc/callback',
+      OIDC_POST_LOGIN_REDIRECT: 'http://localhost:3000/auth/sso',
+      OIDC_LINK_BY_EMAIL: true,
+    });
+    server = provider.listen(4457, done);
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  it('should redirect to the provider with PKCE parameters', async () => {
+    const { res } = await startLogin('admin@hrmanagement.com');
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toContain(`${ISSUER}/authorize`);
+    expect(res.headers.location).toContain('code_challenge_method=S256');
+  });
+
+  it('should sign in the user linked by verified email', async () => {
+    const { code, state } = await startLogin('admin@hrmanagement.com');
+
+    const res = await request(app).get('/api/auth/oidc/callback').query({ code, state });
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toBe('http://localhost:3000/auth/sso');
+    expect(String(res.headers['set-cookie'])).toContain('refreshToken=');
+  });
+
+  it('should reject a replayed state', async () => {
+    const { code, state } = await startLogin('admin@hrmanagement.com');
+
+    await request(app).get('/api/auth/oidc/callback').query({ code, state });
+    const res = await request(app).get('/api/auth/oidc/callback').query({ code, state });
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toContain('error=sso_failed');
+  });
+
+  it('should not sign in an unknown identity without provisioning', async () => {
+    const { code, state } = await startLogin('nobody@example.com');
+
+    const res = await request(app).get('/api/auth/oidc/callback').query({ code, state });
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toContain('error=sso_not_linked');
+  });
+
+  describe('with MFA enabled', () => {
+    const email = 'employee@hrmanagement.com';
+
+    beforeAll(async () => {
+      await prisma.user.update({ where: { email }, data: { mfaEnabled: true } });
+    });
+
+    afterAll(async () => {
+      await prisma.user.update({ where: { email }, data: { mfaEnabled: false } });
+      env.OIDC_MFA_AMR_VALUES = [];
+    });
+
+    it('should return an MFA challenge instead of tokens', async () => {
+      const { code, state } = await startLogin(email);
+
+      const res = await request(app).get('/api/auth/oidc/callback').query({ code, state });
+
+      expect(res.status).toBe(302);
+      const location = new URL(res.headers.location);
+      const fragment = new URLSearchParams(location.hash.slice(1));
+      expect(location.searchParams.get('error')).toBeNull();
+      expect(fragment.get('mfa')).toBe('verify');
+      expect(fragment.get('mfaToken')).toBeTruthy();
+      expect(res.headers['set-cookie']).toBeUndefined();
+    });
+
+    it('should ignore the provider amr claim unless configured', async () => {
+      const { code, state } = await startLogin(email, ['pwd', 'mfa']);
+
+      const res = await request(app).get('/api/auth/oidc/callback').query({ code, state });
+
+      expect(res.headers.location).toContain('mfaToken=');
+      expect(res.headers['set-cookie']).toBeUndefined();
+    });
+
+    it('should trust a configured amr value as the second factor', async () => {
+      env.OIDC_MFA_AMR_VALUES = ['mfa'];
+      const { code, state } = await startLogin(email, ['pwd', 'mfa']);
+
+      const res = await request(app).get('/api/auth/oidc/callback').query({ code, state });
+
+      expect(res.headers.location).toBe('http://localhost:3000/auth/sso');
+      expect(String(res.headers['set-cookie'])).toContain('refreshToken=');
+    });
+  });
+
+  it('should refuse a user who must reset their password', async () => {
+    const email = 'hr@hrmanagement.com';
+    await prisma.user.update({ where: { email }, data: { passwordResetRequired: true } });
+
+    try {
+      const { code, state } = await startLogin(email);
+
+      const res = await request(app).get('/api/auth/oidc/callback').query({ code, state });
+
+      expect(res.status).toBe(302);
+      expect(res.headers.location).toContain('error=sso_forbidden');
+      expect(res.headers['set-cookie']).toBeUndefined();
+    } finally {
+      await prisma.user.update({ where: { email }, data: { passwordResetRequired: false } });
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import argon2 from 'argon2';
+import request from 'supertest';
+import { Setting, SettingType } from '@prisma/client';
+import app from '../app';
+import { PasswordPolicyService } from '../services/password-policy.service';
+import { SettingService } from '../services/setting.service';
+import { ValidationError } from '../utils/errors';
+import { prisma } from './setup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_AGE_SETTING = 'password_max_age_days';
+
+describe('Password policy', () => {
+  const email = 'policy.test@example.com';
+  const initialPassword = 'Initial@Pass1';
+  let userId: string;
+  let previousMaxAge: Setting | null;
+
+  const login = (password: string) =>
+    request(app).post('/api/auth/login').send({ email, password });
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    const loginRes = await login(currentPassword);
+
+    return request(app)
+      .post('/api/auth/change-password')
+      .set('Authorization', `Bearer ${loginRes.body.data.accessToken}`)
+      .send({ currentPassword, newPassword });
+  };
+
+  beforeAll(async () => {
+    const role = await prisma.role.findUniqueOrThrow({ where: { slug: 'employee' } });
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await argon2.hash(initialPassword),
+        firstName: 'Policy',
+        lastName: 'Test',
+        isEmailVerified: true,
+        roleId: role.id,
+      },
+    });
+    userId = user.id;
+    previousMaxAge = await prisma.setting.findUnique({ where: { key: MAX_AGE_SETTING } });
+  });
+
+  afterAll(async () => {
+    await prisma.user.deleteMany({ where: { email } });
+
+    // Restore the seeded (or missing) expiry setting
+    if (previousMaxAge) {
+      await prisma.setting.update({
+        where: { key: MAX_AGE_SETTING },
+        data: { value: previousMaxAge.value },
+      });
+    } else {
+      await prisma.setting.deleteMany({ where: { key: MAX_AGE_SETTING } });
+    }
+  });
+
+  describe('PasswordPolicyService.validate', () => {
+    it.each([
+      ['Sh@rt1', 'at least 8 characters'],
+      ['lowercase@123', 'uppercase letter'],
+      ['UPPERCASE@123', 'lowercase letter'],
+      ['NoNumbers@abc', 'number'],
+      ['NoSpecial123', 'special character'],
+    ])('should reject %s for its missing rule', async (password, rule) => {
+      const error = await PasswordPolicyService.validate(password).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.errors.map((e: { message: string }) => e.message).join('\n')).toContain(rule);
+    });
+
+    it('should reject a breached password regardless of case', async () => {
+      // "p@ssw0rd" is on the bundled list and meets every other rule
+      const error = await PasswordPolicyService.validate('P@ssw0rd').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.errors[0].message).toContain('data breach');
+    });
+
+    it('should accept a password meeting every rule', async () => {
+      await expect(PasswordPolicyService.validate('Unlisted#Pass42')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('POST /api/auth/change-password', () => {
+    it('should enforce the policy that the request schema leaves to the service', async () => {
+      const res = await changePassword(initialPassword, 'short');
+
+      expect(res.status).toBe(422);
+      expect(JSON.stringify(res.body.errors)).toContain('at least 8 characters');
+    });
+
+    it('should reject one of the last passwords', async () => {
+      const changed = await changePassword(initialPassword, 'Second@Pass2');
+      expect(changed.status).toBe(200);
+
+      const res = await changePassword('Second@Pass2', initialPassword);
+
+      expect(res.status).toBe(422);
+      expect(JSON.stringify(res.body.errors)).toContain('last 5 passwords');
+    });
+  });
+
+  describe('expired passwords', () => {
+    beforeAll(async () => {
+      await SettingService.set(MAX_AGE_SETTING, 90, SettingType.NUMBER, 'password_policy');
+      await prisma.user.update({
+        where: { id: userId },
+        data: { passwordChangedAt: new Date(Date.now() - 100 * DAY_MS) },
+      });
+    });
+
+    it('should require a password change at login instead of issuing tokens', async () => {
+      const res = await login('Second@Pass2');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.passwordChangeRequired).toBe(true);
+      expect(res.body.data).not.toHaveProperty('accessToken');
+    });
+
+    it('should replace the expired password and continue the login', async () => {
+      const res = await request(app).post('/api/auth/expired-password').send({
+        email,
+        currentPassword: 'Second@Pass2',
+        newPassword: 'Third@Pass3',
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveProperty('accessToken');
+
+      const loginRes = await login('Third@Pass3');
+      expect(loginRes.body.data).toHaveProperty('accessToken');
+    });
+
+    it('should refuse the expired-password flow for a current password', async () => {
+      const res = await request(app).post('/api/auth/expired-password').send({
+        email,
+        currentPassword: 'Third@Pass3',
+        newPassword: 'Fourth@Pass4',
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import redis from '../config/redis';
+import { PermissionService } from '../services/permission.service';
+import { Resource, Action } from '../types';
+import { prisma } from './setup';
+
+describe('Role permission cache', () => {
+  it('should apply role permission changes on the next check', async () => {
+    const employee = await prisma.user.findUniqueOrThrow({
+      where: { email: 'employee@hrmanagement.com' },
+    });
+    const permission = await prisma.permission.findUniqueOrThrow({
+      where: { slug: 'payroll:read' },
+    });
+
+    const canReadPayroll = () =>
+      PermissionService.hasPermission(employee.id, Resource.PAYROLL, Action.READ);
+
+    // Resolving the employee's permissions caches their role's assignments
+    expect(await canReadPayroll()).toBe(false);
+    expect(await redis.exists(`rbac:role-permissions:${employee.roleId}`)).toBe(1);
+
+    try {
+      await PermissionService.assignPermissionToRole(employee.roleId, permission.id);
+
+      expect(await canReadPayroll()).toBe(true);
+    } finally {
+      await PermissionService.removePermissionFromRole(employee.roleId, permission.id);
+    }
+
+    expect(await canReadPayroll()).toBe(false);
+  });
+});
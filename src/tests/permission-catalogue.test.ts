@@ -0,0 +1,40 @@
+import { PermissionScope } from '@prisma/client';
+import { PermissionCatalogueService } from '../services/permission-catalogue.service';
+import { prisma } from './setup';
+
+describe('Permission catalogue sync', () => {
+  it('should make no changes when run again', async () => {
+    await PermissionCatalogueService.sync();
+
+    const diff = await PermissionCatalogueService.sync();
+
+    expect(diff.missingPermissions).toEqual([]);
+    expect(diff.missingRolePermissions).toEqual([]);
+  });
+
+  it('should restore a removed default role permission only once', async () => {
+    const [role, permission] = await Promise.all([
+      prisma.role.findUniqueOrThrow({ where: { slug: 'hr-manager' } }),
+      prisma.permission.findUniqueOrThrow({ where: { slug: 'payroll:read' } }),
+    ]);
+    await PermissionCatalogueService.sync();
+    await prisma.rolePermission.deleteMany({
+      where: { roleId: role.id, permissionId: permission.id },
+    });
+
+    // A dry run reports the change without making it
+    const dryRun = await PermissionCatalogueService.sync({ dryRun: true });
+    expect(dryRun.missingRolePermissions).toEqual([
+      { role: 'hr-manager', permission: 'payroll:read', scope: PermissionScope.ALL },
+    ]);
+
+    const first = await PermissionCatalogueService.sync();
+    const second = await PermissionCatalogueService.sync();
+
+    expect(first.missingRolePermissions).toHaveLength(1);
+    expect(second.missingRolePermissions).toEqual([]);
+    expect(
+      await prisma.rolePermission.count({ where: { roleId: role.id, permissionId: permission.id } })
+    ).toBe(1);
+  });
+});
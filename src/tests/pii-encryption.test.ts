@@ -0,0 +1,186 @@
+import { prisma } from './setup';
+
+// Keys are read when the PII modules load, so configure them first and load
+// the modules afterwards
+const testKey = (byte: number) => Buffer.alloc(32, byte).toString('base64');
+
+process.env.PII_ENCRYPTION_KEYS = JSON.stringify({ k1: testKey(1), k2: testKey(2) });
+process.env.PII_ENCRYPTION_KEY_ID = 'k1';
+process.env.PII_BLIND_INDEX_KEY = testKey(3);
+
+type PiiCrypto = typeof import('../utils/pii-crypto');
+type PiiEncryption = typeof import('../config/pii-encryption');
+
+describe('PII encryption', () => {
+  let env: typeof import('../config/env').default;
+  let piiCrypto: PiiCrypto;
+  let piiEncryption: PiiEncryption;
+
+  beforeAll(async () => {
+    env = (await import('../config/env')).default;
+    piiCrypto = await import('../utils/pii-crypto');
+    piiEncryption = await import('../config/pii-encryption');
+  });
+
+  afterEach(() => {
+    env.PII_ENCRYPTION_KEY_ID = 'k1';
+  });
+
+  describe('encryptPii / decryptPii', () => {
+    it('should round-trip a value', () => {
+      const stored = piiCrypto.encryptPii('123-45-6789', 'User.taxId');
+
+      expect(piiCrypto.isEncryptedPii(stored)).toBe(true);
+      expect(stored).not.toContain('123-45-6789');
+      expect(piiCrypto.getPiiKeyId(stored)).toBe('k1');
+      expect(piiCrypto.decryptPii(stored, 'User.taxId')).toBe('123-45-6789');
+    });
+
+    it('should use a fresh data key for every value', () => {
+      expect(piiCrypto.encryptPii('same', 'User.address')).not.toBe(
+        piiCrypto.encryptPii('same', 'User.address')
+      );
+    });
+
+    it('should reject a ciphertext moved to another field', () => {
+      const stored = piiCrypto.encryptPii('GB29NWBK60161331926819', 'User.bankAccountNumber');
+
+      expect(() => piiCrypto.decryptPii(stored, 'User.taxId')).toThrow();
+    });
+
+    it('should return plaintext and null values unchanged', () => {
+      expect(piiCrypto.decryptPii('legacy value', 'User.address')).toBe('legacy value');
+      expect(piiCrypto.decryptPii(null, 'User.address')).toBeNull();
+    });
+  });
+
+  describe('blindIndex', () => {
+    it('should ignore case, spaces and hyphens', () => {
+      const index = piiCrypto.blindIndex('AB123456C');
+
+      expect(piiCrypto.blindIndex('ab 12-34-56 c')).toBe(index);
+      expect(piiCrypto.blindIndex('AB-123-456-C')).toBe(index);
+    });
+
+    it('should differ for different values', () => {
+      expect(piiCrypto.blindIndex('123456789')).not.toBe(piiCrypto.blindIndex('123456780'));
+    });
+  });
+
+  describe('encryptUserData', () => {
+    it('should encrypt PII fields and set the taxId blind index', () => {
+      const data = piiEncryption.encryptUserData({ firstName: 'Jane', taxId: '123-45-6789' })!;
+
+      expect(data.firstName).toBe('Jane');
+      expect(piiCrypto.decryptPii(data.taxId as string, 'User.taxId')).toBe('123-45-6789');
+      expect(data.taxIdIndex).toBe(piiCrypto.blindIndex('123456789'));
+    });
+
+    it('should clear the blind index when taxId is cleared', () => {
+      const data = piiEncryption.encryptUserData({ taxId: { set: null } })!;
+
+      expect(data.taxIdIndex).toBeNull();
+    });
+  });
+
+  describe('rewriteTaxIdLookup', () => {
+    it('should match taxId through the blind index or the legacy plaintext', () => {
+      const where = piiEncryption.rewriteTaxIdLookup({
+        taxId: '123-45-6789',
+        isActive: true,
+        AND: { departmentId: 'dept-1' },
+      });
+
+      expect(where).toEqual({
+        isActive: true,
+        AND: [
+          { departmentId: 'dept-1' },
+          {
+            OR: [{ taxIdIndex: piiCrypto.blindIndex('123456789') }, { taxId: '123-45-6789' }],
+          },
+        ],
+      });
+    });
+
+    it('should leave other lookups unchanged', () => {
+      const where = { email: 'employee@hrmanagement.com', taxId: { not: null } };
+
+      expect(piiEncryption.rewriteTaxIdLookup(where)).toBe(where);
+    });
+  });
+
+  describe('rotateUserPii', () => {
+    const rawUser = (values: Partial<Record<string, string | null>>) => ({
+      bankAccountNumber: null,
+      taxId: null,
+      emergencyContact: null,
+      address: null,
+      taxIdIndex: null,
+      ...values,
+    });
+
+    it('should re-wrap values to the new key without changing the ciphertext', () => {
+      const taxId = piiCrypto.encryptPii('123-45-6789', 'User.taxId');
+      const user = rawUser({ taxId, taxIdIndex: piiCrypto.blindIndex('123456789') });
+
+      env.PII_ENCRYPTION_KEY_ID = 'k2';
+      const data = piiEncryption.rotateUserPii(user, 'k2');
+
+      expect(Object.keys(data)).toEqual(['taxId']);
+      expect(piiCrypto.getPiiKeyId(data.taxId!)).toBe('k2');
+      expect(data.taxId!.split(':').pop()).toBe(taxId.split(':').pop());
+      expect(piiCrypto.decryptPii(data.taxId!, 'User.taxId')).toBe('123-45-6789');
+    });
+
+    it('should encrypt plaintext values and rebuild a stale blind index', () => {
+      const data = piiEncryption.rotateUserPii(
+        rawUser({ address: '1 Main Street', taxId: '987654321', taxIdIndex: 'stale' }),
+        'k1'
+      );
+
+      expect(piiCrypto.decryptPii(data.address!, 'User.address')).toBe('1 Main Street');
+      expect(piiCrypto.decryptPii(data.taxId!, 'User.taxId')).toBe('987654321');
+      expect(data.taxIdIndex).toBe(piiCrypto.blindIndex('987654321'));
+    });
+
+    it('should leave up-to-date users unchanged', () => {
+      const user = rawUser({
+        bankAccountNumber: piiCrypto.encryptPii('12345678', 'User.bankAccountNumber'),
+      });
+
+      expect(piiEncryption.rotateUserPii(user, 'k1')).toEqual({});
+    });
+  });
+
+  describe('Prisma extension', () => {
+    const email = 'pii.test@example.com';
+
+    afterAll(async () => {
+      await prisma.user.deleteMany({ where: { email } });
+    });
+
+    it('should store taxId encrypted and find the user by taxId', async () => {
+      const { default: db } = await import('../config/database');
+      const role = await prisma.role.findUniqueOrThrow({ where: { slug: 'employee' } });
+
+      await db.user.create({
+        data: {
+          email,
+          password: 'not-a-real-hash',
+          firstName: 'Pii',
+          lastName: 'Test',
+          roleId: role.id,
+          taxId: '555-12-3456',
+        },
+      });
+
+      const raw = await prisma.user.findUniqueOrThrow({ where: { email } });
+      expect(piiCrypto.isEncryptedPii(raw.taxId!)).toBe(true);
+      expect(raw.taxIdIndex).toBe(piiCrypto.blindIndex('555123456'));
+
+      const found = await db.user.findFirst({ where: { taxId: '555 12 3456' } });
+      expect(found?.email).toBe(email);
+      expect(found?.taxId).toBe('555-12-3456');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import argon2 from 'argon2';
+import { PermissionEffect } from '@prisma/client';
+import db from '../config/database';
+import { PermissionService } from '../services/permission.service';
+import { UserService } from '../services/user.service';
+import { maskSensitiveUserFields } from '../utils/user';
+import { prisma } from './setup';
+
+describe('Sensitive user fields', () => {
+  const viewerEmail = 'fields.viewer@example.com';
+  let employeeId: string;
+
+  // The employee as returned to the user with the given email
+  const getEmployee = async (email: string) => {
+    const viewer = await prisma.user.findUniqueOrThrow({ where: { email } });
+    const user = await UserService.getUserById(
+      employeeId,
+      (await PermissionService.loadUserWithPermissions(viewer.id))!
+    );
+    return user as Record<string, unknown>;
+  };
+
+  beforeAll(async () => {
+    const employee = await db.user.update({
+      where: { email: 'employee@hrmanagement.com' },
+      data: {
+        taxId: '123-45-6789',
+        bankAccountNumber: '12345678',
+        address: '1 Main Street',
+        dateOfBirth: new Date('1990-01-01'),
+      },
+    });
+    employeeId = employee.id;
+
+    // A colleague who may read users, but not their sensitive fields
+    const [role, userRead] = await Promise.all([
+      prisma.role.findUniqueOrThrow({ where: { slug: 'employee' } }),
+      prisma.permission.findUniqueOrThrow({ where: { slug: 'user:read' } }),
+    ]);
+    await prisma.user.create({
+      data: {
+        email: viewerEmail,
+        password: await argon2.hash('Admin@123'),
+        firstName: 'Fields',
+        lastName: 'Viewer',
+        isEmailVerified: true,
+        roleId: role.id,
+        permissionOverrides: {
+          create: { permissionId: userRead.id, effect: PermissionEffect.GRANT },
+        },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.user.deleteMany({ where: { email: viewerEmail } });
+  });
+
+  it('should mask or omit sensitive fields for a viewer without user:read_sensitive', async () => {
+    const user = await getEmployee(viewerEmail);
+
+    expect(user.taxId).toBe('*******6789');
+    expect(user.bankAccountNumber).toBe('****5678');
+    expect(user).not.toHaveProperty('address');
+    expect(user).not.toHaveProperty('dateOfBirth');
+    expect(user.firstName).toBeDefined();
+  });
+
+  it('should show the fields to the employee themselves', async () => {
+    const user = await getEmployee('employee@hrmanagement.com');
+
+    expect(user.taxId).toBe('123-45-6789');
+    expect(user.address).toBe('1 Main Street');
+  });
+
+  it('should show the fields to holders of user:read_sensitive', async () => {
+    const user = await getEmployee('hr@hrmanagement.com');
+
+    expect(user.bankAccountNumber).toBe('12345678');
+    expect(user.dateOfBirth).toBeDefined();
+  });
+
+  it('should keep at least four mask characters for short values', () => {
+    expect(maskSensitiveUserFields({ taxId: '1234', address: null })).toEqual({
+      taxId: '****',
+      address: null,
+    });
+  });
+});
@@ -4,6 +4,12 @@ import { User } from '@prisma/client';
 export interface AuthRequest extends Request {
   user?: User;
   userId?: string;
+  sessionId?: string;
+  // Set when the request authenticated with an API key instead of a JWT
+  apiKeyId?: string;
+  apiKeyScopes?: string[];
+  // Set when a super admin is impersonating req.user
+  impersonatorId?: string;
 }
 
 export interface PaginationQuery {
@@ -36,6 +42,23 @@ export interface JWTPayload {
   userId: string;
   email: string;
   roleId: string;
+  // Refresh token family (session) ID (absent on older tokens)
+  sessionId?: string;
+  // Refresh tokens only: ID of the stored RefreshToken record (absent on older tokens)
+  jti?: string;
+  // Per-user token version at issue time; bumping it revokes older tokens
+  tokenVersion?: number;
+  // Impersonation tokens only: the super admin acting as userId
+  impersonatorId?: string;
+  iat?: number;
+}
+
+export type MfaTokenPurpose = 'mfa_verify' | 'mfa_setup';
+
+// Short-lived token issued by login when a second factor is still required
+export interface MfaTokenPayload {
+  userId: string;
+  purpose: MfaTokenPurpose;
 }
 
 export interface TokenPair {
@@ -83,4 +106,15 @@ export enum Action {
   APPROVE = 'approve',
   REJECT = 'reject',
   MANAGE = 'manage',
+  // See a user's sensitive fields (bank account, tax ID, date of birth, address)
+  READ_SENSITIVE = 'read_sensitive',
+}
+
+export enum EmailVerificationPolicy {
+  // Unverified accounts have full access
+  OFF = 'off',
+  // Unverified accounts can log in but are blocked from sensitive routes
+  RESTRICT = 'restrict',
+  // Unverified accounts cannot log in
+  BLOCK_LOGIN = 'block_login',
 }
@@ -0,0 +1,23 @@
+import { Response } from 'express';
+import env from '../config/env';
+
+// Set refresh token as httpOnly cookie
+export const setRefreshTokenCookie = (res: Response, refreshToken: string) => {
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: env.COOKIE_SECURE,
+    sameSite: env.COOKIE_SAME_SITE,
+    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    domain: env.COOKIE_DOMAIN,
+  });
+};
+
+// Clear refresh token cookie
+export const clearRefreshTokenCookie = (res: Response) => {
+  res.clearCookie('refreshToken', {
+    httpOnly: true,
+    secure: env.COOKIE_SECURE,
+    sameSite: env.COOKIE_SAME_SITE,
+    domain: env.COOKIE_DOMAIN,
+  });
+};
@@ -0,0 +1,19 @@
+import crypto from 'crypto';
+
+// Generate a cryptographically secure random token (hex encoded)
+export const generateSecureToken = (bytes = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+// Hash a high-entropy token for storage and lookup.
+// SHA-256 is sufficient here because the input is random, not user-chosen.
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Constant-time string comparison to avoid leaking how much of a secret matched
+export const safeCompare = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
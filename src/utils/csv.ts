@@ -0,0 +1,15 @@
+// Cells starting with these are run as formulas by spreadsheet applications
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: unknown): string => {
+  let cell = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_PREFIX.test(cell)) {
+    cell = `'${cell}`;
+  }
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+// Serialise rows (the first being the header) as RFC 4180 CSV
+export const toCsv = (rows: unknown[][]): string => {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+};
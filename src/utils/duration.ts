@@ -0,0 +1,17 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Convert a duration such as '15m' or '30d' (the format used for token
+// lifetimes in env) to milliseconds. A bare number is taken as seconds.
+export const parseDuration = (value: string): number => {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  return parseInt(match[1], 10) * UNIT_MS[match[2] || 's'];
+};
@@ -0,0 +1,31 @@
+import net from 'net';
+
+// Network an address belongs to, coarse enough that a user's normal address
+// changes (DHCP, IPv6 privacy addresses) stay on the same network: the /24
+// for IPv4 and the /64 for IPv6
+export const getNetworkPrefix = (ipAddress?: string | null): string => {
+  if (!ipAddress) {
+    return 'unknown';
+  }
+
+  // IPv4-mapped IPv6 addresses as reported by Node (::ffff:192.0.2.1)
+  const address = ipAddress.replace(/^::ffff:/i, '');
+
+  if (net.isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+
+  if (net.isIPv6(address)) {
+    const [head, tail = ''] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const missing = address.includes('::') ? 8 - headGroups.length - tailGroups.length : 0;
+    const groups = [...headGroups, ...Array(missing).fill('0'), ...tailGroups];
+    return `${groups
+      .slice(0, 4)
+      .map((group) => parseInt(group, 16).toString(16))
+      .join(':')}::/64`;
+  }
+
+  return 'unknown';
+};
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { getActivePiiKey, getBlindIndexKey, getPiiKey } from '../config/pii-keys';
+
+// Stored form: pii:v1:<kid>:<wrapped data key>:<ciphertext>, both base64 of
+// IV (12 bytes) | GCM tag (16 bytes) | encrypted bytes
+const PREFIX = 'pii:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const seal = (key: Buffer, plaintext: Buffer, aad: string): Buffer => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+};
+
+const open = (key: Buffer, sealed: Buffer, aad: string): Buffer => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]);
+};
+
+const parse = (stored: string) => {
+  const [kid, wrappedKey, ciphertext] = stored.slice(PREFIX.length).split(':');
+  if (!kid || !wrappedKey || !ciphertext) {
+    throw new Error('Malformed encrypted PII value');
+  }
+  return {
+    kid,
+    wrappedKey: Buffer.from(wrappedKey, 'base64'),
+    ciphertext,
+  };
+};
+
+const wrapDataKey = (dataKey: Buffer) => {
+  const { kid, key } = getActivePiiKey();
+  return `${kid}:${seal(key, dataKey, kid).toString('base64')}`;
+};
+
+export const isEncryptedPii = (value: string): boolean => value.startsWith(PREFIX);
+
+// ID of the key wrapping a stored value's data key
+export const getPiiKeyId = (stored: string): string => parse(stored).kid;
+
+// Encrypt a value under a fresh data key wrapped with the active key. The
+// field name is bound to the ciphertext so values cannot be moved between
+// columns.
+export const encryptPii = (value: string, field: string): string => {
+  const dataKey = crypto.randomBytes(32);
+  const ciphertext = seal(dataKey, Buffer.from(value, 'utf8'), field).toString('base64');
+  return `${PREFIX}${wrapDataKey(dataKey)}:${ciphertext}`;
+};
+
+// Decrypt a stored value. Values written before encryption was enabled are
+// returned unchanged.
+export const decryptPii = (stored: string | null, field: string): string | null => {
+  if (stored === null || !isEncryptedPii(stored)) {
+    return stored;
+  }
+
+  const { kid, wrappedKey, ciphertext } = parse(stored);
+  const dataKey = open(getPiiKey(kid), wrappedKey, kid);
+  return open(dataKey, Buffer.from(ciphertext, 'base64'), field).toString('utf8');
+};
+
+// Re-wrap a value's data key with the active key, leaving the ciphertext as is
+export const rewrapPii = (stored: string): string => {
+  const { kid, wrappedKey, ciphertext } = parse(stored);
+  const dataKey = open(getPiiKey(kid), wrappedKey, kid);
+  return `${PREFIX}${wrapDataKey(dataKey)}:${ciphertext}`;
+};
+
+// Deterministic keyed hash for exact-match lookups on an encrypted column.
+// Case, spaces and hyphens are ignored so formatting differences still match.
+export const blindIndex = (value: string): string => {
+  const normalized = value.replace(/[\s-]/g, '').toUpperCase();
+  return crypto.createHmac('sha256', getBlindIndexKey()).update(normalized).digest('hex');
+};
@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per-request values that services need without threading them through every
+// call (e.g. the real actor behind an impersonated request)
+export interface RequestContext {
+  impersonatorId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Run the rest of the request (e.g. an Express next()) within a context
+export const runWithRequestContext = (context: RequestContext, callback: () => void) => {
+  storage.run(context, callback);
+};
+
+export const getRequestContext = (): RequestContext | undefined => {
+  return storage.getStore();
+};
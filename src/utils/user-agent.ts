@@ -0,0 +1,48 @@
+// Order matters: Edge and Opera also advertise Chrome, and Chrome advertises Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /Edg(e|A|iOS)?\//],
+  ['Opera', /OPR\/|Opera/],
+  ['Samsung Internet', /SamsungBrowser\//],
+  ['Chrome', /Chrome\/|CriOS\//],
+  ['Firefox', /Firefox\/|FxiOS\//],
+  ['Safari', /Version\/[\d.]+.*Safari\//],
+];
+
+// iOS and Android are checked before macOS and Linux for the same reason
+const OPERATING_SYSTEMS: Array<[string, RegExp]> = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['ChromeOS', /CrOS/],
+  ['Linux', /Linux/],
+];
+
+export interface DeviceInfo {
+  browser?: string;
+  os?: string;
+  label: string;
+}
+
+const match = (userAgent: string, candidates: Array<[string, RegExp]>) => {
+  return candidates.find(([, pattern]) => pattern.test(userAgent))?.[0];
+};
+
+// Derive a human readable device label (e.g. "Chrome on Windows") from a User-Agent header
+export const parseUserAgent = (userAgent?: string | null): DeviceInfo => {
+  if (!userAgent) {
+    return { label: 'Unknown device' };
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const os = match(userAgent, OPERATING_SYSTEMS);
+
+  let label = 'Unknown device';
+  if (browser && os) {
+    label = `${browser} on ${os}`;
+  } else if (browser || os) {
+    label = (browser || os) as string;
+  }
+
+  return { browser, os, label };
+};
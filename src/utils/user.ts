@@ -0,0 +1,60 @@
+// Credential fields that must never be returned by the API
+type UserSecretField = 'password' | 'mfaSecret';
+
+const USER_SECRET_FIELDS: UserSecretField[] = ['password', 'mfaSecret'];
+
+// Remove credential fields from a user record before returning it
+export const stripUserSecrets = <T extends object>(user: T): Omit<T, UserSecretField> => {
+  const result = { ...user } as Record<string, unknown>;
+  for (const field of USER_SECRET_FIELDS) {
+    delete result[field];
+  }
+  return result as Omit<T, UserSecretField>;
+};
+
+// Personal fields shown only to the employee and to holders of
+// user:read_sensitive. Masked fields keep their last four characters so they
+// can still be recognised; omitted fields are removed.
+export type UserSensitiveField = 'bankAccountNumber' | 'taxId' | 'dateOfBirth' | 'address';
+
+const USER_SENSITIVE_FIELD_POLICY: Record<UserSensitiveField, 'mask' | 'omit'> = {
+  bankAccountNumber: 'mask',
+  taxId: 'mask',
+  dateOfBirth: 'omit',
+  address: 'omit',
+};
+
+export const USER_SENSITIVE_FIELDS = Object.keys(
+  USER_SENSITIVE_FIELD_POLICY
+) as UserSensitiveField[];
+
+const maskValue = (value: string) => {
+  const visible = value.length > 4 ? value.slice(-4) : '';
+  return `${'*'.repeat(Math.max(value.length - visible.length, 4))}${visible}`;
+};
+
+// Mask or omit the sensitive fields of a user record
+export const maskSensitiveUserFields = <T extends object>(
+  user: T
+): Omit<T, UserSensitiveField> & Partial<Record<UserSensitiveField, unknown>> => {
+  const result = { ...user } as Record<string, unknown>;
+  for (const field of USER_SENSITIVE_FIELDS) {
+    if (result[field] === null || result[field] === undefined) {
+      continue;
+    }
+    if (USER_SENSITIVE_FIELD_POLICY[field] === 'mask') {
+      result[field] = maskValue(String(result[field]));
+    } else {
+      delete result[field];
+    }
+  }
+  return result as Omit<T, UserSensitiveField> & Partial<Record<UserSensitiveField, unknown>>;
+};
+
+// MFA is mandatory when the primary role or any additional role requires it
+export const isMfaRequiredByRoles = (user: {
+  role: { mfaRequired: boolean };
+  additionalRoles: Array<{ role: { mfaRequired: boolean } }>;
+}): boolean => {
+  return user.role.mfaRequired || user.additionalRoles.some((ur) => ur.role.mfaRequired);
+};
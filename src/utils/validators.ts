@@ -2,13 +2,11 @@ import { z } from 'zod';
 
 export const emailSchema = z.string().email('Invalid email address');
 
+// Strength rules are configurable and enforced by PasswordPolicyService
 export const passwordSchema = z
   .string()
-  .min(8, 'Password must be at least 8 characters')
-  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-  .regex(/[0-9]/, 'Password must contain at least one number')
-  .regex(/[@$!%*?&#]/, 'Password must contain at least one special character');
+  .min(1, 'Password is required')
+  .max(128, 'Password must be at most 128 characters');
 
 export const uuidSchema = z.string().uuid('Invalid UUID');
 